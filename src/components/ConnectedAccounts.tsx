@@ -0,0 +1,209 @@
+// src/components/ConnectedAccounts.tsx
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useLocation } from 'react-router-dom';
+import { useAuthConfig } from '../context/AuthConfigContext';
+import { useAuthState } from '../context/AuthStateContext';
+import { useEndpoint } from '../hooks/useEndpoint';
+import { useOAuthCallback } from '../hooks/useOAuthCallback';
+import type { LinkedIdentity, ResolvedOAuthProvider } from '../models/OAuthProviders';
+import { extractHttpErrorMessage } from '../utils/errorHelpers';
+import { openOAuthPopup } from '../utils/oauthPopup';
+import {
+  buildOAuthStartUrl,
+  createOAuthState,
+  OAUTH_LINK_ERROR_KEY,
+  OAUTH_LINK_KEY,
+  resolveOAuthProviders,
+} from '../utils/oauthProviders';
+import { saveRedirectIntent } from '../utils/redirectIntent';
+import { InlineError } from './InlineError';
+
+const primaryBtn =
+  'rounded-full border border-blue-200 bg-blue-50 px-4 py-2 text-sm font-medium text-blue-700 hover:bg-blue-100 disabled:opacity-60';
+
+interface Props {
+  /** Whether the account also has a password (so the last identity may go); null while loading */
+  hasPassword: boolean | null;
+  /** Passkeys listed in PasskeySettings (0 when passkeys are off); null while loading */
+  passkeyCount: number | null;
+  /** Called with the linked identities whenever they change */
+  onChange?(identities: LinkedIdentity[]): void;
+}
+
+/**
+ * Connected accounts section of ProfilePage: link the configured OAuth
+ * providers through their start URLs, list and unlink linked identities.
+ */
+export const ConnectedAccounts: React.FC<Props> = ({ hasPassword, passkeyCount, onChange }) => {
+  const { baseUrl, oauthProviders, oauthMode = 'redirect', passwordless } = useAuthConfig();
+  const { api } = useAuthState();
+  const identitiesEndpoint = useEndpoint('identities');
+  const finishOAuth = useOAuthCallback();
+  const location = useLocation();
+
+  const [identities, setIdentities] = useState<LinkedIdentity[] | null>(null);
+  const onChangeRef = useRef(onChange);
+  const [busy, setBusy] = useState(false);
+  // a redirect-mode link that failed comes back with its message
+  const [error, setError] = useState<string | null>(() => {
+    const msg = sessionStorage.getItem(OAUTH_LINK_ERROR_KEY);
+    if (msg) sessionStorage.removeItem(OAUTH_LINK_ERROR_KEY);
+    return msg;
+  });
+
+  const providers = resolveOAuthProviders(oauthProviders);
+
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  });
+
+  const showIdentities = useCallback((list: LinkedIdentity[]) => {
+    setIdentities(list);
+    onChangeRef.current?.(list);
+  }, []);
+
+  const fetchIdentities = useCallback(async (): Promise<LinkedIdentity[]> => {
+    const { data } = await api.get(identitiesEndpoint.path);
+    return (identitiesEndpoint.transformResponse(data) as LinkedIdentity[] | undefined) ?? [];
+  }, [api, identitiesEndpoint]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchIdentities()
+      .then((list) => !cancelled && showIdentities(list))
+      .catch((err) => console.error('Failed to load connected accounts:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [fetchIdentities, showIdentities]);
+
+  async function run(task: () => Promise<void>) {
+    setBusy(true);
+    setError(null);
+    try {
+      await task();
+    } catch (err) {
+      setError(extractHttpErrorMessage(err));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const connect = (provider: ResolvedOAuthProvider) =>
+    run(async () => {
+      const url = new URL(buildOAuthStartUrl(baseUrl, provider, createOAuthState()));
+      url.searchParams.set('intent', 'link');
+
+      const popup = oauthMode === 'popup' ? openOAuthPopup(url.toString()) : null;
+      if (!popup) {
+        // the callback page brings the user back here
+        saveRedirectIntent(location);
+        sessionStorage.setItem(OAUTH_LINK_KEY, provider.id);
+        window.location.href = url.toString();
+        return;
+      }
+      const params = await popup;
+      if (!params) return; // closed by the user
+      await finishOAuth(params, { link: true });
+      showIdentities(await fetchIdentities());
+    });
+
+  // never strand the user without a way to sign in: only decide once everything
+  // has loaded, counting password, passkeys and emailed sign-in alongside identities
+  const linked = identities ?? [];
+  const ready = identities !== null && hasPassword !== null && passkeyCount !== null;
+  const otherMethods = !!hasPassword || !!passkeyCount || !!passwordless;
+  const canUnlink = ready && (otherMethods || linked.length > 1);
+
+  const unlink = (identity: LinkedIdentity, label: string) => {
+    if (!window.confirm(`Disconnect your ${label} account?`)) return;
+    return run(async () => {
+      await api.delete(`${identitiesEndpoint.path}/${encodeURIComponent(identity.provider)}`);
+      showIdentities(linked.filter((i) => i.provider !== identity.provider));
+    });
+  };
+
+  // configured providers first, then identities for providers no longer offered
+  const rows = [
+    ...providers.map((provider) => ({
+      provider,
+      label: provider.label,
+      identity: linked.find((i) => i.provider === provider.id),
+    })),
+    ...linked
+      .filter((i) => !providers.some((p) => p.id === i.provider))
+      .map((identity) => ({ provider: null, label: identity.provider, identity })),
+  ];
+
+  return (
+    <div className="mt-6 rounded-2xl border border-gray-200 bg-white shadow-sm">
+      <div className="px-6 pt-6 pb-4">
+        <h2 className="text-lg font-semibold">Connected accounts</h2>
+        <p className="text-sm text-gray-500">Sign in with any of the accounts connected here.</p>
+      </div>
+
+      <div className="px-6 pb-6 border-t border-gray-100 pt-6">
+        {error && (
+          <div className="mb-4">
+            <InlineError message={error} />
+          </div>
+        )}
+
+        <ul className="divide-y divide-gray-100">
+          {rows.map(({ provider, label, identity }) => (
+            <li
+              key={provider?.id ?? identity?.provider}
+              className="flex items-center justify-between gap-4 py-3"
+            >
+              <div className="flex items-center gap-3">
+                {provider?.icon && (
+                  <img src={provider.icon} alt="" className="h-6 w-6 object-contain" />
+                )}
+                <div>
+                  <p className="text-sm font-medium text-gray-800">{label}</p>
+                  <p className="text-xs text-gray-500">
+                    {identity
+                      ? identity.email
+                        ? `Connected as ${identity.email}`
+                        : 'Connected'
+                      : 'Not connected'}
+                  </p>
+                </div>
+              </div>
+
+              {identity ? (
+                <button
+                  type="button"
+                  className="text-sm font-medium text-red-600 hover:text-red-800 disabled:opacity-60"
+                  disabled={busy || !canUnlink}
+                  title={canUnlink ? undefined : 'Set a password or connect another account first'}
+                  onClick={() => unlink(identity, label)}
+                >
+                  Disconnect
+                </button>
+              ) : (
+                provider && (
+                  <button
+                    type="button"
+                    className={primaryBtn}
+                    disabled={busy}
+                    onClick={() => connect(provider)}
+                  >
+                    Connect
+                  </button>
+                )
+              )}
+            </li>
+          ))}
+        </ul>
+
+        {ready && !canUnlink && linked.length > 0 && (
+          <p className="mt-3 text-xs text-gray-500">
+            This is your only way to sign in. Set a password, add a passkey or connect another
+            account before disconnecting it.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
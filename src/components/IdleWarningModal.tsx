@@ -0,0 +1,74 @@
+// src/components/IdleWarningModal.tsx
+import React, { useEffect } from 'react';
+import ReactDOM from 'react-dom';
+import { useT } from '@ciscode/ui-translate-core';
+
+interface Props {
+  secondsLeft: number;
+  onStay: () => void; // resets the idle timer
+  onLogout: () => void; // runs hardLogout()
+}
+
+export const IdleWarningModal: React.FC<Props> = ({ secondsLeft, onStay, onLogout }) => {
+  const t = useT('authLib');
+
+  /* disable scroll & clicks behind the modal */
+  useEffect(() => {
+    const { body } = document;
+    const prevOverflow = body.style.overflow;
+    const prevPointer = body.style.pointerEvents;
+
+    body.style.overflow = 'hidden';
+    body.style.pointerEvents = 'none';
+
+    return () => {
+      body.style.overflow = prevOverflow;
+      body.style.pointerEvents = prevPointer;
+    };
+  }, []);
+
+  return ReactDOM.createPortal(
+    <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/40 backdrop-blur-sm">
+      <div
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="idle-warning-title"
+        className="pointer-events-auto w-full max-w-sm rounded-xl bg-white p-6 shadow-xl"
+      >
+        <h2
+          id="idle-warning-title"
+          className="mb-4 text-xl font-semibold text-gray-800 ltr:text-left rtl:text-center"
+        >
+          {t('idleWarning.title', { defaultValue: 'Are you still there?' })}
+        </h2>
+
+        <p className="mb-8 text-sm text-gray-600 ltr:text-left rtl:text-center" aria-live="polite">
+          {t('idleWarning.message', {
+            defaultValue: `You will be signed out in ${secondsLeft} seconds due to inactivity.`,
+          })}
+        </p>
+
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={onLogout}
+            className="rounded-lg px-4 py-2 text-sm font-medium text-gray-600 hover:bg-gray-100"
+          >
+            {t('idleWarning.logout', { defaultValue: 'Sign out' })}
+          </button>
+          <button
+            autoFocus
+            onClick={onStay}
+            className="
+              rounded-lg bg-sky-600 px-4 py-2 text-sm font-medium text-white
+              hover:bg-sky-700 focus-visible:outline focus-visible:outline-2
+              focus-visible:outline-offset-2 focus-visible:outline-sky-600
+            "
+          >
+            {t('idleWarning.stay', { defaultValue: 'Stay signed in' })}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body,
+  );
+};
@@ -0,0 +1,258 @@
+// src/components/MfaSettings.tsx
+import React, { useState } from 'react';
+import { useAuthState } from '../context/AuthStateContext';
+import { useEndpoint } from '../hooks/useEndpoint';
+import type { TotpEnrollment } from '../models/Mfa';
+import { extractHttpErrorMessage } from '../utils/errorHelpers';
+import { OtpInput } from './actions/OtpInput';
+
+interface Props {
+  /** Whether the signed-in user already has TOTP turned on */
+  enabled: boolean;
+  onEnabledChange(enabled: boolean): void;
+}
+
+type Step =
+  | { kind: 'idle' }
+  | { kind: 'enroll'; enrollment: TotpEnrollment }
+  | { kind: 'confirm-action'; action: 'disable' | 'regenerate' }
+  | { kind: 'codes'; codes: string[] };
+
+/** `recoveryCodes` from the confirm / regenerate responses */
+function recoveryCodesOf(data: unknown): string[] {
+  return (data as { recoveryCodes?: string[] } | undefined)?.recoveryCodes ?? [];
+}
+
+const primaryBtn =
+  'rounded-full border border-blue-200 bg-blue-50 px-4 py-2 text-sm font-medium text-blue-700 hover:bg-blue-100 disabled:opacity-60';
+const secondaryBtn = 'text-sm font-medium text-gray-600 hover:text-gray-900 disabled:opacity-60';
+
+/**
+ * Security section of ProfilePage: TOTP enrollment (QR + manual secret,
+ * first-code check), recovery codes, disabling and regenerating codes.
+ */
+export const MfaSettings: React.FC<Props> = ({ enabled, onEnabledChange }) => {
+  const { api } = useAuthState();
+  const enrollEndpoint = useEndpoint('mfaEnroll');
+  const confirmEndpoint = useEndpoint('mfaConfirm');
+  const disableEndpoint = useEndpoint('mfaDisable');
+  const recoveryEndpoint = useEndpoint('mfaRecoveryCodes');
+
+  const [step, setStep] = useState<Step>({ kind: 'idle' });
+  const [code, setCode] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  function goTo(next: Step) {
+    setStep(next);
+    setCode('');
+    setError(null);
+    setCopied(false);
+  }
+
+  async function run(task: () => Promise<void>) {
+    setBusy(true);
+    setError(null);
+    try {
+      await task();
+    } catch (err) {
+      setError(extractHttpErrorMessage(err));
+      setCode('');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const startEnrollment = () =>
+    run(async () => {
+      const { data } = await api.post(enrollEndpoint.path, enrollEndpoint.transformRequest({}));
+      goTo({
+        kind: 'enroll',
+        enrollment: enrollEndpoint.transformResponse(data) as TotpEnrollment,
+      });
+    });
+
+  const confirmEnrollment = () =>
+    run(async () => {
+      const { data } = await api.post(
+        confirmEndpoint.path,
+        confirmEndpoint.transformRequest({ code }),
+      );
+      onEnabledChange(true);
+      goTo({ kind: 'codes', codes: recoveryCodesOf(confirmEndpoint.transformResponse(data)) });
+    });
+
+  const confirmAction = (action: 'disable' | 'regenerate') =>
+    run(async () => {
+      if (action === 'disable') {
+        await api.post(disableEndpoint.path, disableEndpoint.transformRequest({ code }));
+        onEnabledChange(false);
+        goTo({ kind: 'idle' });
+        return;
+      }
+      const { data } = await api.post(
+        recoveryEndpoint.path,
+        recoveryEndpoint.transformRequest({ code }),
+      );
+      goTo({ kind: 'codes', codes: recoveryCodesOf(recoveryEndpoint.transformResponse(data)) });
+    });
+
+  async function copyCodes(codes: string[]) {
+    try {
+      await navigator.clipboard.writeText(codes.join('\n'));
+      setCopied(true);
+    } catch (err) {
+      console.error('Failed to copy recovery codes:', err);
+    }
+  }
+
+  function downloadCodes(codes: string[]) {
+    const url = URL.createObjectURL(new Blob([`${codes.join('\n')}\n`], { type: 'text/plain' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'recovery-codes.txt';
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  const codeInput = (
+    <OtpInput value={code} onChange={setCode} label="Authenticator code" disabled={busy} />
+  );
+
+  return (
+    <div className="mt-6 rounded-2xl border border-gray-200 bg-white shadow-sm">
+      <div className="px-6 pt-6 pb-4">
+        <h2 className="text-lg font-semibold">Security</h2>
+        <p className="text-sm text-gray-500">
+          Two-factor authentication is{' '}
+          <span className={enabled ? 'text-green-700' : 'text-gray-700'}>
+            {enabled ? 'on' : 'off'}
+          </span>
+          .
+        </p>
+      </div>
+
+      <div className="px-6 pb-6 border-t border-gray-100 pt-6">
+        {error && (
+          <p role="alert" className="mb-4 text-sm text-red-600">
+            {error}
+          </p>
+        )}
+
+        {step.kind === 'idle' &&
+          (enabled ? (
+            <div className="flex flex-wrap gap-4">
+              <button
+                type="button"
+                className={primaryBtn}
+                onClick={() => goTo({ kind: 'confirm-action', action: 'regenerate' })}
+              >
+                Regenerate recovery codes
+              </button>
+              <button
+                type="button"
+                className="rounded-full border border-red-200 bg-red-50 px-4 py-2 text-sm font-medium text-red-700 hover:bg-red-100"
+                onClick={() => goTo({ kind: 'confirm-action', action: 'disable' })}
+              >
+                Disable two-factor authentication
+              </button>
+            </div>
+          ) : (
+            <button type="button" className={primaryBtn} disabled={busy} onClick={startEnrollment}>
+              Set up authenticator app
+            </button>
+          ))}
+
+        {step.kind === 'enroll' && (
+          <div>
+            <p className="text-sm text-gray-700">
+              Scan this QR code with your authenticator app, or enter the key manually.
+            </p>
+            {step.enrollment.qrCode && (
+              <img
+                src={step.enrollment.qrCode}
+                alt="Authenticator QR code"
+                className="mt-4 h-44 w-44 rounded-lg border border-gray-200"
+              />
+            )}
+            <p className="mt-4 text-xs font-medium text-gray-500">Setup key</p>
+            <code className="block break-all rounded-lg bg-gray-50 px-3 py-2 text-sm">
+              {step.enrollment.secret}
+            </code>
+            <p className="mt-6 text-sm text-gray-700">Enter the 6-digit code the app shows.</p>
+            {codeInput}
+            <div className="mt-6 flex items-center gap-4">
+              <button
+                type="button"
+                className={primaryBtn}
+                disabled={busy || code.length !== 6}
+                onClick={confirmEnrollment}
+              >
+                Verify and turn on
+              </button>
+              <button type="button" className={secondaryBtn} onClick={() => goTo({ kind: 'idle' })}>
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step.kind === 'confirm-action' && (
+          <div>
+            <p className="text-sm text-gray-700">
+              Enter a code from your authenticator app to{' '}
+              {step.action === 'disable'
+                ? 'turn off two-factor authentication'
+                : 'replace your recovery codes'}
+              .
+            </p>
+            {codeInput}
+            <div className="mt-6 flex items-center gap-4">
+              <button
+                type="button"
+                className={primaryBtn}
+                disabled={busy || code.length !== 6}
+                onClick={() => confirmAction(step.action)}
+              >
+                {step.action === 'disable' ? 'Disable' : 'Regenerate'}
+              </button>
+              <button type="button" className={secondaryBtn} onClick={() => goTo({ kind: 'idle' })}>
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step.kind === 'codes' && (
+          <div>
+            <p className="text-sm text-gray-700">
+              Save these recovery codes somewhere safe. Each one can be used once if you lose access
+              to your authenticator app; they will not be shown again.
+            </p>
+            <ul className="mt-4 grid grid-cols-2 gap-2 rounded-lg bg-gray-50 p-4 font-mono text-sm">
+              {step.codes.map((c) => (
+                <li key={c}>{c}</li>
+              ))}
+            </ul>
+            <div className="mt-6 flex flex-wrap items-center gap-4">
+              <button type="button" className={primaryBtn} onClick={() => copyCodes(step.codes)}>
+                {copied ? 'Copied' : 'Copy'}
+              </button>
+              <button
+                type="button"
+                className={primaryBtn}
+                onClick={() => downloadCodes(step.codes)}
+              >
+                Download
+              </button>
+              <button type="button" className={secondaryBtn} onClick={() => goTo({ kind: 'idle' })}>
+                Done
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
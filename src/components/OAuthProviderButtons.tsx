@@ -0,0 +1,90 @@
+// src/components/OAuthProviderButtons.tsx
+import React from 'react';
+import { useT } from '@ciscode/ui-translate-core';
+import { useLocation } from 'react-router-dom';
+import { useAuthConfig } from '../context/AuthConfigContext';
+import { useOAuthCallback } from '../hooks/useOAuthCallback';
+import { toTailwindColorClasses } from '../utils/colorHelpers';
+import { extractHttpErrorMessage } from '../utils/errorHelpers';
+import {
+  BUILT_IN_OAUTH_PROVIDERS,
+  buildOAuthStartUrl,
+  createOAuthState,
+  resolveOAuthProviders,
+} from '../utils/oauthProviders';
+import { openOAuthPopup } from '../utils/oauthPopup';
+import { saveRedirectIntent } from '../utils/redirectIntent';
+import { SocialButton } from './actions/SocialButton';
+
+/**
+ * The "or continue with" divider and one SocialButton per configured
+ * `oauthProviders` entry. Renders nothing when none are configured.
+ */
+export const OAuthProviderButtons: React.FC<{
+  heading: string;
+  /** Popup mode reports failures here instead of on the callback page */
+  onError?(message: string): void;
+}> = ({ heading, onError }) => {
+  const t = useT('authLib');
+  const location = useLocation();
+  const { baseUrl, colors, oauthProviders, oauthMode = 'redirect' } = useAuthConfig();
+  const finishOAuth = useOAuthCallback();
+  const { bgClass, textClass } = toTailwindColorClasses(colors);
+
+  const providers = resolveOAuthProviders(oauthProviders);
+  if (providers.length === 0) return null;
+
+  function handleClick(index: number) {
+    if (!baseUrl) {
+      console.error('Auth baseUrl is not configured.');
+      return;
+    }
+
+    // Where to go AFTER successful OAuth login: RequireAuth has usually stored it
+    // already; a `state.from` passed by the app takes precedence.
+    saveRedirectIntent((location.state as { from?: unknown } | null)?.from);
+
+    const url = buildOAuthStartUrl(baseUrl, providers[index], createOAuthState());
+
+    // popup mode keeps this page (and the app's state) alive; blocked popups fall back
+    const popup = oauthMode === 'popup' ? openOAuthPopup(url) : null;
+    if (!popup) {
+      // Full redirect to backend → provider → backend → frontend callback
+      window.location.href = url;
+      return;
+    }
+    popup
+      .then((params) => params && finishOAuth(params))
+      .catch((err: unknown) => {
+        const message = extractHttpErrorMessage(err);
+        if (onError) onError(message);
+        else console.error(message);
+      });
+  }
+
+  return (
+    <>
+      <div className="flex items-center pt-2">
+        <div className={`flex-grow h-px ${bgClass}`} />
+        <span className={`${textClass} mx-3 text-sm`}>{heading}</span>
+        <div className={`flex-grow h-px ${bgClass}`} />
+      </div>
+      <div className="grid grid-cols-2 gap-3 mb-6">
+        {providers.map((provider, index) => {
+          const builtIn =
+            BUILT_IN_OAUTH_PROVIDERS[provider.id as keyof typeof BUILT_IN_OAUTH_PROVIDERS];
+          // built-in labels go through translations; custom ones are used as given
+          const label =
+            builtIn && provider.label === builtIn.label
+              ? t(`social.${provider.id}`, { defaultValue: provider.label })
+              : provider.label;
+          return (
+            <button key={provider.id} type="button" onClick={() => handleClick(index)}>
+              <SocialButton icon={provider.icon ?? ''} label={label} />
+            </button>
+          );
+        })}
+      </div>
+    </>
+  );
+};
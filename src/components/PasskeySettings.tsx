@@ -0,0 +1,206 @@
+// src/components/PasskeySettings.tsx
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useAuthState } from '../context/AuthStateContext';
+import { useEndpoint } from '../hooks/useEndpoint';
+import type { Passkey, PasskeyCreationOptionsJSON } from '../models/Passkeys';
+import { extractHttpErrorMessage } from '../utils/errorHelpers';
+import { createPasskey, isPasskeyCancellation, isPasskeySupported } from '../utils/webauthn';
+
+const primaryBtn =
+  'rounded-full border border-blue-200 bg-blue-50 px-4 py-2 text-sm font-medium text-blue-700 hover:bg-blue-100 disabled:opacity-60';
+const linkBtn = 'text-sm font-medium text-gray-600 hover:text-gray-900 disabled:opacity-60';
+
+interface Props {
+  /** Whether the user can sign in without a passkey (so the last one may go); null while loading */
+  hasOtherMethod: boolean | null;
+  /** Called with the passkeys whenever they change (an empty list when loading fails) */
+  onChange?(passkeys: Passkey[]): void;
+}
+
+/** Passkeys section of ProfilePage: list, add, rename and remove passkeys. */
+export const PasskeySettings: React.FC<Props> = ({ hasOtherMethod, onChange }) => {
+  const { api } = useAuthState();
+  const listEndpoint = useEndpoint('passkeys');
+  const optionsEndpoint = useEndpoint('passkeyRegisterOptions');
+  const registerEndpoint = useEndpoint('passkeyRegister');
+
+  const [passkeys, setPasskeys] = useState<Passkey[]>([]);
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const onChangeRef = useRef(onChange);
+
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  });
+
+  const showPasskeys = useCallback((list: Passkey[]) => {
+    setPasskeys(list);
+    onChangeRef.current?.(list);
+  }, []);
+
+  const itemPath = (id: string) => `${listEndpoint.path}/${encodeURIComponent(id)}`;
+
+  const fetchPasskeys = useCallback(async (): Promise<Passkey[]> => {
+    const { data } = await api.get(listEndpoint.path);
+    return (listEndpoint.transformResponse(data) as Passkey[] | undefined) ?? [];
+  }, [api, listEndpoint]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchPasskeys()
+      .then((list) => !cancelled && showPasskeys(list))
+      .catch((err) => {
+        console.error('Failed to load passkeys:', err);
+        if (!cancelled) showPasskeys([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [fetchPasskeys, showPasskeys]);
+
+  async function run(task: () => Promise<void>) {
+    setBusy(true);
+    setError(null);
+    try {
+      await task();
+    } catch (err) {
+      if (!isPasskeyCancellation(err)) setError(extractHttpErrorMessage(err));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const addPasskey = () =>
+    run(async () => {
+      const { data: options } = await api.post(
+        optionsEndpoint.path,
+        optionsEndpoint.transformRequest({}),
+      );
+      const credential = await createPasskey(
+        optionsEndpoint.transformResponse(options) as PasskeyCreationOptionsJSON,
+      );
+      await api.post(registerEndpoint.path, registerEndpoint.transformRequest({ ...credential }));
+      showPasskeys(await fetchPasskeys());
+    });
+
+  const saveName = (id: string, name: string) =>
+    run(async () => {
+      await api.patch(itemPath(id), listEndpoint.transformRequest({ name }));
+      showPasskeys(passkeys.map((p) => (p.id === id ? { ...p, name } : p)));
+      setEditing(null);
+    });
+
+  const removePasskey = (passkey: Passkey) => {
+    if (!window.confirm(`Remove the passkey "${passkey.name}"?`)) return;
+    return run(async () => {
+      await api.delete(itemPath(passkey.id));
+      showPasskeys(passkeys.filter((p) => p.id !== passkey.id));
+    });
+  };
+
+  // never strand the user without a way to sign in
+  const canRemove = hasOtherMethod === true || passkeys.length > 1;
+
+  return (
+    <div className="mt-6 rounded-2xl border border-gray-200 bg-white shadow-sm">
+      <div className="px-6 pt-6 pb-4 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold">Passkeys</h2>
+          <p className="text-sm text-gray-500">
+            Sign in with your fingerprint, face or device PIN instead of a password.
+          </p>
+        </div>
+        <button
+          type="button"
+          className={primaryBtn}
+          disabled={busy || !isPasskeySupported()}
+          onClick={addPasskey}
+        >
+          Add a passkey
+        </button>
+      </div>
+
+      <div className="px-6 pb-6 border-t border-gray-100 pt-6">
+        {error && (
+          <p role="alert" className="mb-4 text-sm text-red-600">
+            {error}
+          </p>
+        )}
+
+        {passkeys.length === 0 ? (
+          <p className="text-sm text-gray-500">No passkeys yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {passkeys.map((p) => (
+              <li key={p.id} className="flex items-center justify-between gap-4 py-3">
+                {editing?.id === p.id ? (
+                  <input
+                    type="text"
+                    aria-label="Passkey name"
+                    value={editing.name}
+                    onChange={(e) => setEditing({ id: p.id, name: e.target.value })}
+                    className="flex-1 rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                  />
+                ) : (
+                  <div>
+                    <p className="text-sm font-medium text-gray-800">{p.name}</p>
+                    {p.lastUsedAt && (
+                      <p className="text-xs text-gray-500">
+                        Last used {new Date(p.lastUsedAt).toLocaleDateString()}
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                <div className="flex items-center gap-4">
+                  {editing?.id === p.id ? (
+                    <>
+                      <button
+                        type="button"
+                        className={linkBtn}
+                        disabled={busy || !editing.name.trim()}
+                        onClick={() => saveName(p.id, editing.name.trim())}
+                      >
+                        Save
+                      </button>
+                      <button type="button" className={linkBtn} onClick={() => setEditing(null)}>
+                        Cancel
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <button
+                        type="button"
+                        className={linkBtn}
+                        onClick={() => setEditing({ id: p.id, name: p.name })}
+                      >
+                        Rename
+                      </button>
+                      <button
+                        type="button"
+                        className="text-sm font-medium text-red-600 hover:text-red-800 disabled:opacity-60"
+                        disabled={busy || !canRemove}
+                        title={canRemove ? undefined : 'Set a password or connect an account first'}
+                        onClick={() => removePasskey(p)}
+                      >
+                        Remove
+                      </button>
+                    </>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {hasOtherMethod === false && passkeys.length === 1 && (
+          <p className="mt-3 text-xs text-gray-500">
+            This is your only way to sign in. Set a password or connect an account before removing
+            it.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,205 @@
+// src/components/PasswordlessForm.tsx
+import React, { useEffect, useState } from 'react';
+import { useT } from '@ciscode/ui-translate-core';
+import { useAuthConfig } from '../context/AuthConfigContext';
+import { useAuthState } from '../context/AuthStateContext';
+import { useAuthRoute } from '../hooks/useAuthRoute';
+import { useEndpoint } from '../hooks/useEndpoint';
+import { useRateLimit } from '../hooks/useRateLimit';
+import type { PasswordlessConfig } from '../models/AuthConfig';
+import { toTailwindColorClasses } from '../utils/colorHelpers';
+import { extractHttpErrorMessage } from '../utils/errorHelpers';
+import { InputField } from './actions/InputField';
+import { InlineError } from './InlineError';
+
+interface Props extends PasswordlessConfig {
+  /** Back to the password form */
+  onCancel(): void;
+}
+
+/**
+ * Passwordless sign-in on SignInPage: emails a magic link (finished on the
+ * magic-link route) or a 6-digit code (finished here).
+ */
+export const PasswordlessForm: React.FC<Props> = ({
+  method,
+  resendCooldownSeconds = 30,
+  onCancel,
+}) => {
+  const t = useT('authLib');
+  const { colors } = useAuthConfig();
+  const { api, loginWithPasswordless } = useAuthState();
+  const startEndpoint = useEndpoint('passwordlessStart');
+  const magicLinkPath = useAuthRoute('magicLink');
+  const { bgClass, textClass, borderClass } = toTailwindColorClasses(colors);
+
+  const [email, setEmail] = useState('');
+  const [code, setCode] = useState('');
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sent, setSent] = useState<{ resendAt: number; expiresAt: number | null } | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const rateLimit = useRateLimit();
+
+  // tick once a second while the resend cooldown / expiry countdown matters
+  useEffect(() => {
+    if (!sent) return;
+    const id = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(id);
+  }, [sent]);
+
+  const resendIn = sent ? Math.max(0, Math.ceil((sent.resendAt - now) / 1000)) : 0;
+  const expired = !!sent?.expiresAt && now >= sent.expiresAt;
+  const minutesLeft = sent?.expiresAt ? Math.ceil((sent.expiresAt - now) / 60_000) : null;
+
+  async function send() {
+    if (pending || !email || rateLimit.blocked) return;
+    setError(null);
+    setPending(true);
+    try {
+      const { data: raw } = await api.post(
+        startEndpoint.path,
+        startEndpoint.transformRequest({
+          email,
+          method,
+          redirectUrl: `${window.location.origin}${magicLinkPath}`,
+        }),
+      );
+      const expiresIn = (startEndpoint.transformResponse(raw) as { expiresIn?: number } | undefined)
+        ?.expiresIn;
+      const sentAt = Date.now();
+      setNow(sentAt);
+      setCode('');
+      setSent({
+        resendAt: sentAt + resendCooldownSeconds * 1000,
+        expiresAt: typeof expiresIn === 'number' ? sentAt + expiresIn * 1000 : null,
+      });
+    } catch (err) {
+      // throttled: the server's Retry-After countdown replaces the error
+      if (!rateLimit.track(err)) setError(extractHttpErrorMessage(err));
+    } finally {
+      setPending(false);
+    }
+  }
+
+  async function verify(e: React.FormEvent) {
+    e.preventDefault();
+    if (!sent) return send();
+    if (pending || method !== 'code' || expired || !code.trim()) return;
+    setError(null);
+    setPending(true);
+    try {
+      await loginWithPasswordless({ email, code: code.trim() });
+    } catch (err) {
+      if (!rateLimit.track(err)) setError(extractHttpErrorMessage(err));
+    } finally {
+      setPending(false);
+    }
+  }
+
+  const submitClass = `relative flex w-full items-center justify-center gap-2 py-3 rounded-lg font-medium transition-colors ${
+    pending ? 'opacity-60 cursor-not-allowed' : ''
+  } ${bgClass} text-white`;
+
+  return (
+    <form className="space-y-6" onSubmit={verify}>
+      {error && <InlineError message={error} />}
+      {rateLimit.notice && (
+        <p
+          role="status"
+          className="rounded-lg border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800"
+        >
+          {rateLimit.notice}
+        </p>
+      )}
+
+      {!sent ? (
+        <>
+          <InputField
+            label={t('form.emailLabel', { defaultValue: 'Email' })}
+            type="email"
+            placeholder={t('form.emailPlaceholder', { defaultValue: 'name@company.com' })}
+            color={borderClass}
+            value={email}
+            onChange={setEmail}
+            autoComplete="username"
+          />
+          <button
+            type="submit"
+            disabled={pending || !email || rateLimit.blocked}
+            className={submitClass}
+          >
+            {method === 'link'
+              ? t('Passwordless.sendLink', { defaultValue: 'Email me a sign-in link' })
+              : t('Passwordless.sendCode', { defaultValue: 'Email me a sign-in code' })}
+          </button>
+        </>
+      ) : (
+        <>
+          <p className="text-sm text-gray-700" role="status">
+            {method === 'link'
+              ? t('Passwordless.linkSent', {
+                  defaultValue: `We sent a sign-in link to ${email}. Open it on this device to continue.`,
+                })
+              : t('Passwordless.codeSent', {
+                  defaultValue: `Enter the 6-digit code we sent to ${email}.`,
+                })}
+          </p>
+
+          {method === 'code' && (
+            <InputField
+              label={t('Passwordless.codeLabel', { defaultValue: 'Sign-in code' })}
+              type="text"
+              placeholder="123456"
+              color={borderClass}
+              value={code}
+              onChange={(v) => setCode(v.replace(/\D/g, '').slice(0, 6))}
+              autoComplete="one-time-code"
+            />
+          )}
+
+          {expired ? (
+            <p className="text-sm text-red-600">
+              {t('Passwordless.expired', {
+                defaultValue: 'This sign-in email has expired. Request a new one.',
+              })}
+            </p>
+          ) : (
+            minutesLeft !== null && (
+              <p className="text-sm text-gray-500">
+                {t('Passwordless.expiresIn', {
+                  defaultValue: `It expires in ${minutesLeft} minute${minutesLeft === 1 ? '' : 's'}.`,
+                })}
+              </p>
+            )
+          )}
+
+          {method === 'code' && (
+            <button
+              type="submit"
+              disabled={pending || expired || code.length !== 6 || rateLimit.blocked}
+              className={submitClass}
+            >
+              {t('Passwordless.verify', { defaultValue: 'Sign in' })}
+            </button>
+          )}
+
+          <button
+            type="button"
+            onClick={send}
+            disabled={pending || resendIn > 0 || rateLimit.blocked}
+            className={`text-sm ${textClass} disabled:opacity-60`}
+          >
+            {resendIn > 0
+              ? t('Passwordless.resendIn', { defaultValue: `Resend in ${resendIn}s` })
+              : t('Passwordless.resend', { defaultValue: 'Resend email' })}
+          </button>
+        </>
+      )}
+
+      <button type="button" onClick={onCancel} className={`block text-sm ${textClass}`}>
+        {t('Passwordless.usePassword', { defaultValue: 'Sign in with your password instead' })}
+      </button>
+    </form>
+  );
+};
@@ -1,10 +1,32 @@
-import React, { useEffect, useMemo, useState } from 'react';
+import React, { useContext, useEffect, useMemo, useState } from 'react';
+import { AuthConfigContext } from '../context/AuthConfigContext';
 import { useAuthState } from '../context/AuthStateContext';
+import { useEndpoint } from '../hooks/useEndpoint';
+import { ConnectedAccounts } from './ConnectedAccounts';
+import { MfaSettings } from './MfaSettings';
+import { PasskeySettings } from './PasskeySettings';
+
+/** The parts of the `me` response this page reads */
+interface MeResponse {
+  data?: {
+    email?: string;
+    username?: string;
+    fullname?: { fname?: string; lname?: string };
+    mfaEnabled?: boolean;
+    hasPassword?: boolean;
+  };
+}
 
 type ToastType = 'success' | 'error';
 
 export const ProfilePage: React.FC = () => {
   const { user, api, setUser } = useAuthState();
+  const meEndpoint = useEndpoint('me');
+  const updateMeEndpoint = useEndpoint('updateMe');
+  const config = useContext(AuthConfigContext);
+  const mfaOffered = !!config?.mfa;
+  const passkeysEnabled = !!config?.passkeys;
+  const oauthEnabled = (config?.oauthProviders?.length ?? 0) > 0;
 
   const [fname, setFname] = useState('');
   const [lname, setLname] = useState('');
@@ -14,6 +36,17 @@ export const ProfilePage: React.FC = () => {
   const [saving, setSaving] = useState(false);
 
   const [orig, setOrig] = useState({ fname: '', lname: '', username: '' });
+  const [mfaEnabled, setMfaEnabled] = useState(false);
+  // accounts created through a provider have no password until they set one
+  const [hasPassword, setHasPassword] = useState<boolean | null>(null);
+  // shared by the passkey and connected-account sections so neither removes the
+  // last way to sign in based on a stale count; null until the section reports
+  const [passkeyCount, setPasskeyCount] = useState<number | null>(passkeysEnabled ? null : 0);
+  const [identityCount, setIdentityCount] = useState<number | null>(oauthEnabled ? null : 0);
+  const hasNonPasskeyMethod =
+    hasPassword === null || identityCount === null
+      ? null
+      : hasPassword || identityCount > 0 || !!config?.passwordless;
 
   const [toast, setToast] = useState<{
     open: boolean;
@@ -42,10 +75,10 @@ export const ProfilePage: React.FC = () => {
 
     async function loadProfile() {
       try {
-        const resp = await api.get('/api/auth/me');
+        const resp = await api.get(meEndpoint.path);
         if (cancelled) return;
 
-        const u = resp?.data?.data;
+        const u = (meEndpoint.transformResponse(resp?.data) as MeResponse | undefined)?.data;
         setEmail(u?.email ?? '');
         const f = u?.fullname?.fname ?? '';
         const l = u?.fullname?.lname ?? '';
@@ -54,6 +87,8 @@ export const ProfilePage: React.FC = () => {
         setLname(l);
         setUsername(un);
         setOrig({ fname: f, lname: l, username: un });
+        setMfaEnabled(!!u?.mfaEnabled);
+        setHasPassword(u?.hasPassword !== false);
       } catch (err) {
         console.error('Failed to load profile details:', err);
       }
@@ -63,7 +98,7 @@ export const ProfilePage: React.FC = () => {
     return () => {
       cancelled = true;
     };
-  }, [api, setUser]);
+  }, [api, setUser, meEndpoint]);
 
   const displayName = useMemo(() => {
     const combined = `${fname} ${lname}`.trim();
@@ -80,7 +115,10 @@ export const ProfilePage: React.FC = () => {
     setSaving(true);
 
     try {
-      await api.patch('/api/auth/me', { fullname: { fname, lname }, username });
+      await api.patch(
+        updateMeEndpoint.path,
+        updateMeEndpoint.transformRequest({ fullname: { fname, lname }, username }),
+      );
       setUser({ ...user, name: `${fname} ${lname}`.trim() });
       setIsEditing(false);
       setOrig({ fname, lname, username });
@@ -370,6 +408,21 @@ export const ProfilePage: React.FC = () => {
           )}
         </div>
       </div>
+
+      {mfaOffered && <MfaSettings enabled={mfaEnabled} onEnabledChange={setMfaEnabled} />}
+      {passkeysEnabled && (
+        <PasskeySettings
+          hasOtherMethod={hasNonPasskeyMethod}
+          onChange={(list) => setPasskeyCount(list.length)}
+        />
+      )}
+      {oauthEnabled && (
+        <ConnectedAccounts
+          hasPassword={hasPassword}
+          passkeyCount={passkeyCount}
+          onChange={(list) => setIdentityCount(list.length)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,38 @@
+// src/components/RequireAuth.tsx
+import React, { useEffect } from 'react';
+import { Location, useLocation, useNavigate } from 'react-router-dom';
+import { useAuthConfig } from '../context/AuthConfigContext';
+import { useAuthState } from '../context/AuthStateContext';
+import { useAuthRoute } from '../hooks/useAuthRoute';
+import { saveRedirectIntent } from '../utils/redirectIntent';
+
+interface Props {
+  children: React.ReactNode;
+}
+
+const DefaultBootScreen: React.FC = () => <div className="fixed inset-0 bg-white" />;
+
+/**
+ * Renders `children` only for signed-in users; everyone else is sent to the
+ * login page and brought back afterwards. Use it to guard individual routes
+ * (AuthProvider already guards everything outside `publicPaths`).
+ */
+export const RequireAuth: React.FC<Props> = ({ children }) => {
+  const { status, isAuthenticated } = useAuthState();
+  const { bootScreen: BootScreen = DefaultBootScreen } = useAuthConfig();
+  const location = useLocation();
+  // don't bounce deep links to /login while the refresh cookie is still being tried
+  if (status === 'bootstrapping') return <BootScreen />;
+  return isAuthenticated ? <>{children}</> : <RedirectToLogin from={location} />;
+};
+
+/* remembers the requested location before bouncing to /login */
+const RedirectToLogin: React.FC<{ from: Location }> = ({ from }) => {
+  const navigate = useNavigate();
+  const loginPath = useAuthRoute('login');
+  useEffect(() => {
+    saveRedirectIntent(from);
+    navigate(loginPath, { replace: true, state: { from } });
+  }, [from, loginPath, navigate]);
+  return null;
+};
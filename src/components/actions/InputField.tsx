@@ -15,6 +15,7 @@ export const InputField: React.FC<InputFieldProps> = ({
   color = '',
   value,
   onChange,
+  autoComplete,
 }) => {
   const inputId = React.useId();
 
@@ -33,6 +34,7 @@ export const InputField: React.FC<InputFieldProps> = ({
         type={type}
         placeholder={placeholder || undefined}
         value={value}
+        autoComplete={autoComplete}
         onChange={(e) => onChange?.(e.target.value)}
         className={`
           px-4 py-4 mt-3.5 text-sm font-light rounded-lg border border-solid w-full
@@ -0,0 +1,70 @@
+// src/components/actions/OtpInput.tsx
+import * as React from 'react';
+import { OtpInputProps } from '../../models/Type';
+
+/**
+ * OtpInput:
+ * - One box per digit, focus moves forward/backward as the user types
+ * - Pasting or SMS/password-manager autofill fills every box at once
+ * - Non-digits are ignored
+ */
+export const OtpInput: React.FC<OtpInputProps> = ({
+  length = 6,
+  value,
+  onChange,
+  label,
+  color = '',
+  autoFocus,
+  disabled,
+}) => {
+  const refs = React.useRef<(HTMLInputElement | null)[]>([]);
+  const digits = Array.from({ length }, (_, i) => value[i] ?? '');
+
+  function update(next: string) {
+    const code = next.replace(/\D/g, '').slice(0, length);
+    onChange(code);
+    refs.current[Math.min(code.length, length - 1)]?.focus();
+  }
+
+  // autofill and paste deliver the whole code into a single box
+  const insertAt = (index: number, text: string) => update(value.slice(0, index) + text);
+
+  function handleKeyDown(index: number, e: React.KeyboardEvent<HTMLInputElement>) {
+    if (e.key === 'Backspace') {
+      e.preventDefault();
+      update(value.slice(0, digits[index] ? index : Math.max(index - 1, 0)));
+    } else if (e.key === 'ArrowLeft') {
+      refs.current[index - 1]?.focus();
+    } else if (e.key === 'ArrowRight') {
+      refs.current[index + 1]?.focus();
+    }
+  }
+
+  return (
+    <div role="group" aria-label={label} className="mt-8 flex justify-between gap-2" dir="ltr">
+      {digits.map((digit, i) => (
+        <input
+          key={i}
+          ref={(el) => {
+            refs.current[i] = el;
+          }}
+          type="text"
+          inputMode="numeric"
+          autoComplete={i === 0 ? 'one-time-code' : 'off'}
+          aria-label={`${label} ${i + 1}`}
+          autoFocus={autoFocus && i === 0}
+          disabled={disabled}
+          value={digit}
+          // typing over a filled box: keep only the new character(s)
+          onChange={(e) => insertAt(i, digit ? e.target.value.replace(digit, '') : e.target.value)}
+          onPaste={(e) => {
+            e.preventDefault();
+            insertAt(i, e.clipboardData.getData('text'));
+          }}
+          onKeyDown={(e) => handleKeyDown(i, e)}
+          className={`w-12 h-14 text-center text-xl rounded-lg border border-solid ${color}`}
+        />
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,27 @@
+// src/context/AuthEventsContext.ts
+import { createContext, useContext, useEffect, useRef } from 'react';
+import type { AuthEventBus, AuthEventHandler, AuthEventType } from '../models/AuthEvents';
+import type { UserProfile } from '../models/User';
+
+export const AuthEventsCtx = createContext<AuthEventBus | null>(null);
+
+/**
+ * Subscribe to an auth lifecycle event for the lifetime of the component.
+ * The latest `handler` is always used, so inline functions are fine. Pass the
+ * provider's user type as `TUser` to type `login` / `userChanged` payloads.
+ */
+export function useAuthEvents<K extends AuthEventType, TUser extends UserProfile = UserProfile>(
+  type: K,
+  handler: AuthEventHandler<K, TUser>,
+) {
+  const ctx = useContext(AuthEventsCtx);
+  if (!ctx) throw new Error('useAuthEvents must be inside <AuthProvider>');
+  const bus = ctx as unknown as AuthEventBus<TUser>;
+
+  const handlerRef = useRef(handler);
+  useEffect(() => {
+    handlerRef.current = handler;
+  });
+
+  useEffect(() => bus.on(type, (payload) => handlerRef.current(payload)), [bus, type]);
+}
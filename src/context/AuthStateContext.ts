@@ -1,21 +1,65 @@
 import { createContext, useContext } from 'react';
+import { MfaChallenge, MfaVerifyOptions } from '../models/Mfa';
 import { UserProfile } from '../models/User';
 import { AxiosInstance } from 'axios';
 
-export interface AuthCtx {
+/**
+ * - bootstrapping: startup refresh-cookie check still in flight
+ * - refreshing: signed in, access token being renewed
+ * - expired: refresh failed, session-expired dialog is showing
+ */
+export type AuthStatus =
+  | 'bootstrapping'
+  | 'authenticated'
+  | 'unauthenticated'
+  | 'refreshing'
+  | 'expired';
+
+export interface AuthCtx<TUser extends UserProfile = UserProfile> {
+  status: AuthStatus;
   isAuthenticated: boolean;
-  user: UserProfile | null;
+  user: TUser | null;
   accessToken: string | null;
+  /** access-token expiry in ms since epoch: its `exp`, or OIDC `expires_in` (null when unknown) */
+  expiresAt: number | null;
   api: AxiosInstance;
-  login(credentials: { email: string; password: string }): Promise<void>;
+  /**
+   * Resolves once signed in, or once the MFA page is shown when a second factor is due.
+   * `rememberMe` picks durable or browser-session token persistence (see `AuthConfig.rememberMe`).
+   */
+  login(credentials: { email: string; password: string; rememberMe?: boolean }): Promise<void>;
+  /**
+   * Sign in with a passkey. `conditional` waits for the user to pick one from
+   * the username field's autofill instead of opening the browser dialog.
+   */
+  loginWithPasskey(options?: { conditional?: boolean; signal?: AbortSignal }): Promise<void>;
+  /**
+   * Finish a passwordless sign-in with the emailed code, or with the token
+   * from a magic link.
+   */
+  loginWithPasswordless(proof: { email: string; code: string } | { token: string }): Promise<void>;
+  /**
+   * Finish an OAuth sign-in from the callback: with the access token the
+   * backend put in the URL, or by exchanging its one-time code.
+   */
+  loginWithOAuth(result: { accessToken: string } | { code: string }): Promise<void>;
+  /** OIDC mode: send the browser to the identity provider's sign-in page. */
+  loginWithOidc(): Promise<void>;
+  /** OIDC mode: finish the code flow from the callback URL's query string. */
+  handleOidcCallback(search: string): Promise<void>;
+  /** Pending second-factor challenge from the last `login()`, if any */
+  mfaChallenge: MfaChallenge | null;
+  /** Answer `mfaChallenge` with a TOTP or recovery code to finish signing in. */
+  verifyMfa(code: string, options?: MfaVerifyOptions): Promise<void>;
   logout(): void;
-  setUser(user: UserProfile | null): void;
+  setUser(user: TUser | null): void;
 }
 
 export const AuthStateCtx = createContext<AuthCtx | null>(null);
 
-export function useAuthState(): AuthCtx {
+/** Pass your user type to get custom claims typed: `useAuthState<MyUser>()`. */
+export function useAuthState<TUser extends UserProfile = UserProfile>(): AuthCtx<TUser> {
   const ctx = useContext(AuthStateCtx);
   if (!ctx) throw new Error('useAuthState must be inside <AuthProvider>');
-  return ctx;
+  return ctx as unknown as AuthCtx<TUser>;
 }
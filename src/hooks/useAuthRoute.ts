@@ -0,0 +1,10 @@
+// src/hooks/useAuthRoute.ts
+import { useContext } from 'react';
+import { AuthConfigContext } from '../context/AuthConfigContext';
+import type { AuthRouteName } from '../models/Routes';
+import { resolveAuthRoute } from '../utils/authRoutes';
+
+/** Absolute path of a built-in page; falls back to the defaults outside AuthProvider. */
+export function useAuthRoute(name: AuthRouteName): string {
+  return resolveAuthRoute(useContext(AuthConfigContext), name).path;
+}
@@ -0,0 +1,11 @@
+// src/hooks/useEndpoint.ts
+import { useContext, useMemo } from 'react';
+import { AuthConfigContext } from '../context/AuthConfigContext';
+import type { AuthEndpointName } from '../models/Endpoints';
+import { resolveEndpoint } from '../utils/endpoints';
+
+/** Resolved endpoint for `name`; falls back to the defaults outside AuthProvider. */
+export function useEndpoint(name: AuthEndpointName) {
+  const config = useContext(AuthConfigContext);
+  return useMemo(() => resolveEndpoint(config, name), [config, name]);
+}
@@ -0,0 +1,95 @@
+// src/hooks/useIdleTimeout.ts
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { createCrossTabSync, CrossTabSync } from '../utils/crossTabSync';
+
+interface Options {
+  enabled: boolean;
+  timeoutMs: number;
+  /** how long before the timeout the warning is shown */
+  warningMs: number;
+  onTimeout(): void;
+}
+
+const ACTIVITY_EVENTS = ['mousedown', 'mousemove', 'keydown', 'scroll', 'touchstart', 'wheel'];
+const BROADCAST_THROTTLE_MS = 5_000;
+const TICK_MS = 1_000;
+
+/**
+ * Tracks user activity (shared across tabs) and reports a countdown once
+ * the user has been idle for `timeoutMs - warningMs`.
+ * While the warning is up, activity in this tab no longer counts: only
+ * `stayActive()` here, or activity reported by another tab, resets the timer.
+ * Other tabs keep counting so a background tab never signs out (all tabs)
+ * while the user is working elsewhere.
+ */
+export function useIdleTimeout({ enabled, timeoutMs, warningMs, onTimeout }: Options) {
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const onTimeoutRef = useRef(onTimeout);
+  const stayRef = useRef<() => void>(() => {});
+
+  useEffect(() => {
+    onTimeoutRef.current = onTimeout;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const sync: CrossTabSync = createCrossTabSync('authkit:idle');
+    let lastActivity = Date.now();
+    let lastBroadcast = 0;
+    let warning = false;
+
+    function touch(broadcast: boolean) {
+      lastActivity = Date.now();
+      if (broadcast && lastActivity - lastBroadcast > BROADCAST_THROTTLE_MS) {
+        lastBroadcast = lastActivity;
+        sync.post({ type: 'activity', at: lastActivity });
+      }
+    }
+
+    function check() {
+      const left = timeoutMs - (Date.now() - lastActivity);
+      if (left <= 0) {
+        window.clearInterval(timer);
+        setSecondsLeft(null);
+        onTimeoutRef.current();
+        return;
+      }
+      warning = left <= warningMs;
+      setSecondsLeft(warning ? Math.ceil(left / 1000) : null);
+    }
+
+    function onActivity() {
+      if (!warning) touch(true);
+    }
+
+    stayRef.current = () => {
+      lastBroadcast = 0; // always tell the other tabs
+      touch(true);
+      check();
+    };
+
+    const off = sync.subscribe((msg) => {
+      if (msg.type !== 'activity' || msg.at <= lastActivity) return;
+      lastActivity = msg.at;
+      check();
+    });
+
+    ACTIVITY_EVENTS.forEach((e) => window.addEventListener(e, onActivity, { passive: true }));
+    // Sleep/wake: the interval simply catches up and times out if needed
+    const timer = window.setInterval(check, TICK_MS);
+
+    return () => {
+      window.clearInterval(timer);
+      ACTIVITY_EVENTS.forEach((e) => window.removeEventListener(e, onActivity));
+      off();
+      sync.close();
+      stayRef.current = () => {};
+      setSecondsLeft(null);
+    };
+  }, [enabled, timeoutMs, warningMs]);
+
+  const stayActive = useCallback(() => stayRef.current(), []);
+
+  return { secondsLeft, stayActive };
+}
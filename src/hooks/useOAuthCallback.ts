@@ -0,0 +1,37 @@
+import { useT } from '@ciscode/ui-translate-core';
+import { useAuthState } from '../context/AuthStateContext';
+import { consumeOAuthState } from '../utils/oauthProviders';
+
+/**
+ * Sign in from the parameters an OAuth callback received: checks the
+ * provider error and `state`, then uses the token or exchanges the code.
+ * With `link`, only the checks run (the backend attached the account).
+ * Rejects with a user-facing message.
+ */
+export function useOAuthCallback(): (
+  params: URLSearchParams,
+  options?: { link?: boolean },
+) => Promise<void> {
+  const t = useT('authLib');
+  const { loginWithOAuth } = useAuthState();
+
+  return async (params, { link = false } = {}) => {
+    const providerError = params.get('error');
+    if (providerError) throw new Error(params.get('error_description') ?? providerError);
+    if (!consumeOAuthState(params.get('state'))) {
+      throw new Error(
+        t('OAuthCallbackPage.stateMismatch', {
+          defaultValue: 'This sign-in attempt has expired or was started elsewhere.',
+        }),
+      );
+    }
+    if (link) return;
+    const accessToken = params.get('accessToken') ?? params.get('access_token');
+    const code = params.get('code');
+    if (accessToken) return loginWithOAuth({ accessToken });
+    if (code) return loginWithOAuth({ code });
+    throw new Error(
+      t('OAuthCallbackPage.noToken', { defaultValue: 'The sign-in response was incomplete.' }),
+    );
+  };
+}
@@ -0,0 +1,63 @@
+// src/hooks/useRateLimit.ts
+import { useEffect, useState } from 'react';
+import { useT } from '@ciscode/ui-translate-core';
+import { getRateLimitInfo } from '../utils/errorHelpers';
+
+/**
+ * Wait applied when a 429 / lockout comes without a usable `Retry-After`
+ * (missing, or 0 / already past, which would otherwise show nothing at all)
+ */
+const DEFAULT_WAIT_SECONDS = 60;
+
+/** 42 → "42s", 299 → "4:59" */
+function formatWait(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Countdown for throttled / locked-out forms. `track(err)` starts it when
+ * `err` is a 429 or lockout and returns whether it did; while `blocked`,
+ * `notice` says how long the user must wait.
+ */
+export function useRateLimit() {
+  const t = useT('authLib');
+  const [limit, setLimit] = useState<{ until: number; locked: boolean } | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!limit) return;
+    const id = window.setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= limit.until) setLimit(null);
+    }, 1000);
+    return () => window.clearInterval(id);
+  }, [limit]);
+
+  function track(err: unknown): boolean {
+    const info = getRateLimitInfo(err);
+    if (!info) return false;
+    const current = Date.now();
+    setNow(current);
+    setLimit({
+      until: current + (info.retryAfterSeconds || DEFAULT_WAIT_SECONDS) * 1000,
+      locked: info.locked,
+    });
+    return true;
+  }
+
+  const secondsLeft = limit ? Math.max(0, Math.ceil((limit.until - now) / 1000)) : 0;
+  const wait = formatWait(secondsLeft);
+  const notice = !secondsLeft
+    ? null
+    : limit?.locked
+      ? t('rateLimit.locked', {
+          defaultValue: `Your account is temporarily locked. Try again in ${wait}.`,
+        })
+      : t('rateLimit.throttled', {
+          defaultValue: `Too many attempts. Try again in ${wait}.`,
+        });
+
+  return { blocked: secondsLeft > 0, secondsLeft, notice, track };
+}
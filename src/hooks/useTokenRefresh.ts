@@ -0,0 +1,83 @@
+// src/hooks/useTokenRefresh.ts
+import { useEffect, useRef } from 'react';
+
+interface Options {
+  /** access-token expiry in ms since epoch; null ⇒ nothing to schedule */
+  expiresAt: number | null;
+  /** refresh this many seconds before `expiresAt` */
+  leewaySeconds: number;
+  refresh(): Promise<void>;
+}
+
+const MAX_TIMEOUT_MS = 2_147_483_647; // setTimeout overflows past 2^31-1
+const BACKOFF_BASE_MS = 5_000;
+const BACKOFF_MAX_MS = 5 * 60_000;
+
+/**
+ * Schedules a silent refresh shortly before the access token expires.
+ * - skips while the tab is hidden and catches up once it is visible again
+ * - re-checks on focus / online, since timers are frozen during sleep
+ * - backs off exponentially on failure; gives up on 401/403 (no refresh cookie)
+ */
+export function useTokenRefresh({ expiresAt, leewaySeconds, refresh }: Options) {
+  const refreshRef = useRef(refresh);
+  useEffect(() => {
+    refreshRef.current = refresh;
+  });
+
+  useEffect(() => {
+    if (expiresAt === null) return;
+
+    let timer: number | undefined;
+    let dueAt = expiresAt - leewaySeconds * 1000;
+    let attempt = 0;
+    let inFlight = false;
+    let cancelled = false;
+
+    function schedule(at: number) {
+      window.clearTimeout(timer);
+      dueAt = at;
+      timer = window.setTimeout(tick, Math.min(Math.max(at - Date.now(), 0), MAX_TIMEOUT_MS));
+    }
+
+    async function tick() {
+      if (cancelled || inFlight) return;
+      if (Date.now() < dueAt) {
+        schedule(dueAt); // woke early (capped timeout or focus before due)
+        return;
+      }
+      if (document.visibilityState === 'hidden') return; // resumed by onWake
+
+      inFlight = true;
+      try {
+        // success swaps the token → new expiresAt → this effect re-runs
+        await refreshRef.current();
+      } catch (err) {
+        if (cancelled) return;
+        const status = (err as { response?: { status?: number } })?.response?.status;
+        if (status === 401 || status === 403) return;
+        schedule(Date.now() + Math.min(BACKOFF_BASE_MS * 2 ** attempt, BACKOFF_MAX_MS));
+        attempt += 1;
+      } finally {
+        inFlight = false;
+      }
+    }
+
+    function onWake() {
+      if (document.visibilityState !== 'hidden') tick();
+    }
+
+    schedule(dueAt);
+    document.addEventListener('visibilitychange', onWake);
+    window.addEventListener('focus', onWake);
+    window.addEventListener('online', onWake);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+      document.removeEventListener('visibilitychange', onWake);
+      window.removeEventListener('focus', onWake);
+      window.removeEventListener('online', onWake);
+    };
+  }, [expiresAt, leewaySeconds]);
+}
@@ -3,4 +3,57 @@ export { AuthProvider } from '../providers/AuthProvider';
 export { useAuthState } from '../context/AuthStateContext';
 export { useHasRole, useHasModule, useCan } from '../hooks/useAbility';
 export { RequirePermissions } from '../components/RequirePermissions';
+export { RequireAuth } from '../components/RequireAuth';
 export { RbacContext, RbacProvider, useGrant } from '../context/RbacContext';
+export {
+  createMemoryTokenStorage,
+  createSessionTokenStorage,
+  createLocalTokenStorage,
+  createRememberMeTokenStorage,
+  createCookieTokenStorage,
+} from '../utils/tokenStorage';
+export type { TokenStorage, CookieTokenStorageOptions } from '../models/TokenStorage';
+export type { AuthEndpoints, AuthEndpointName, EndpointConfig } from '../models/Endpoints';
+export { useAuthEvents } from '../context/AuthEventsContext';
+export type { AuthEventMap, AuthEventType, LoginSource, LogoutReason } from '../models/AuthEvents';
+export type { AuthRoutes, AuthRouteName, AuthRouteConfig } from '../models/Routes';
+export { useAuthRoute } from '../hooks/useAuthRoute';
+export { SignInPage } from '../pages/auth/SignInPage';
+export { SignUpPage } from '../pages/auth/SignUpPage';
+export { VerifyEmailPage } from '../pages/auth/VerifyEmailPage';
+export { ForgotPasswordPage } from '../pages/auth/ForgotPasswordPage';
+export { ResetPasswordPage } from '../pages/auth/ResetPasswordPage';
+export { OAuthCallbackPage } from '../pages/auth/OAuthCallbackPage';
+export { GoogleCallbackPage } from '../pages/auth/GoogleCallbackPage';
+export { MfaChallengePage } from '../pages/auth/MfaChallengePage';
+export { MagicLinkPage } from '../pages/auth/MagicLinkPage';
+export { OidcSignInPage } from '../pages/auth/OidcSignInPage';
+export { OidcCallbackPage } from '../pages/auth/OidcCallbackPage';
+export type { OidcConfig } from '../models/Oidc';
+export {
+  createRecaptchaV3Challenge,
+  createHcaptchaChallenge,
+  createTurnstileChallenge,
+  createHoneypotChallenge,
+  createNoopChallenge,
+} from '../utils/challengeProviders';
+export type {
+  ChallengeAction,
+  ChallengeProvider,
+  ChallengeTarget,
+  InteractiveChallengeOptions,
+  SiteKeyChallengeOptions,
+} from '../models/Challenge';
+export type { MfaChallenge, MfaMethod, MfaVerifyOptions } from '../models/Mfa';
+export type { Passkey } from '../models/Passkeys';
+export type {
+  BuiltInOAuthProviderId,
+  LinkedIdentity,
+  OAuthProviderConfig,
+  OAuthProviderEntry,
+} from '../models/OAuthProviders';
+export { OAuthProviderButtons } from '../components/OAuthProviderButtons';
+export { bufferToBase64url, base64urlToBuffer } from '../utils/base64url';
+export type { AuthConfigProps, PasswordlessConfig } from '../models/AuthConfig';
+export type { AuthCtx, AuthStatus } from '../context/AuthStateContext';
+export type { UserProfile, BaseUserProfile, ClaimMapper, JwtClaims } from '../models/User';
@@ -1,5 +1,14 @@
 //src/models/AuthConfig.ts
+import type { ComponentType } from 'react';
 import { ColorTheme } from './ColorTheme';
+import { AuthEventHandler } from './AuthEvents';
+import { ChallengeProvider } from './Challenge';
+import { AuthEndpoints } from './Endpoints';
+import { OAuthProviderEntry } from './OAuthProviders';
+import { OidcConfig } from './Oidc';
+import { AuthRoutes } from './Routes';
+import { ClaimMapper, UserProfile } from './User';
+import { TokenStorage } from './TokenStorage';
 
 export interface CustomField {
   name: string;
@@ -11,30 +20,162 @@ export interface CustomField {
   defaultValue?: string;
 }
 
+export interface IdleTimeoutConfig {
+  /** Sign the user out after this many minutes without activity (in any tab). */
+  minutes: number;
+  /**
+   * Show the warning dialog this many seconds before signing out (default 60).
+   * The dialog closes on "Stay signed in" or on activity in another tab.
+   */
+  warningSeconds?: number;
+}
+
+export interface PasswordlessConfig {
+  /** Email a one-click sign-in link, or a 6-digit code to type in. */
+  method: 'link' | 'code';
+  /** Seconds before another email can be requested (default 30). */
+  resendCooldownSeconds?: number;
+}
+
 // src/models/AuthConfig.ts
-export interface AuthConfigProps {
+export interface AuthConfigProps<TUser extends UserProfile = UserProfile> {
   /** The base URL for your authentication API. */
   baseUrl: string;
 
+  /** Override the path and request/response shape of any backend call. */
+  endpoints?: AuthEndpoints;
+
+  /** Rename, unmount or replace the built-in pages (login, signup, …). */
+  routes?: AuthRoutes;
+
+  /** Prefix for every built-in page path, e.g. "/auth" → "/auth/login" (default "/"). */
+  basePath?: string;
+
+  /**
+   * Only provide auth context; mount no routes and guard nothing. Render the
+   * exported pages (and your own guards) in your router instead.
+   */
+  headless?: boolean;
+
+  /**
+   * Paths rendered without signing in, as globs ("/pricing", "/docs/**") or a
+   * predicate. Everything else under AuthProvider requires a session.
+   */
+  publicPaths?: string[] | ((pathname: string) => boolean);
+
+  /**
+   * Where tokens are kept on the client. Defaults to localStorage;
+   * see createMemoryTokenStorage / createSessionTokenStorage /
+   * createCookieTokenStorage for the alternatives.
+   */
+  tokenStorage?: TokenStorage;
+
+  /**
+   * Show a "Remember me" checkbox on SignInPage. Its value is sent to the
+   * login endpoint as `rememberMe`, and unless `tokenStorage` is set, tokens
+   * then go to localStorage when checked and sessionStorage otherwise.
+   */
+  rememberMe?: boolean;
+
+  /**
+   * Map the decoded JWT claims onto your user type, e.g. to read
+   * namespaced claims like `https://acme.io/roles`. Required when `TUser`
+   * adds fields of its own.
+   */
+  claimMapper?: ClaimMapper<TUser>;
+
+  /** Silently refresh the access token this many seconds before it expires (default 60). */
+  refreshBeforeExpirySeconds?: number;
+
+  /**
+   * Tolerance applied to `exp` when restoring a stored token at startup, to
+   * absorb client/server clock drift (default 30).
+   */
+  clockSkewSeconds?: number;
+
+  /** Inactivity sign-out; disabled when omitted. */
+  idleTimeout?: IdleTimeoutConfig;
+
+  /** Lifecycle callbacks (also available to components via `useAuthEvents`) */
+  onLogin?: AuthEventHandler<'login', TUser>;
+  onLogout?: AuthEventHandler<'logout'>;
+  onTokenRefreshed?: AuthEventHandler<'tokenRefreshed'>;
+  onRefreshFailed?: AuthEventHandler<'refreshFailed'>;
+  onSessionExpired?: AuthEventHandler<'sessionExpired'>;
+  onUserChanged?: AuthEventHandler<'userChanged', TUser>;
+
   /** Branding / Theming */
   brandName?: string;
   logoUrl?: string;
   colors: ColorTheme;
-  /** Social or OAuth providers that you want to display. */
-  oauthProviders?: string[];
+  /**
+   * OAuth/OIDC sign-in buttons, in display order: built-in ids (`'google'`,
+   * `'microsoft'`, `'github'`, `'apple'`, `'gitlab'`, `'oidc'`) or provider
+   * objects overriding a built-in or defining a new one.
+   */
+  oauthProviders?: OAuthProviderEntry[];
+  /**
+   * `popup` runs the provider flow in a separate window so this page keeps
+   * its state; blocked popups fall back to `redirect` (the default).
+   */
+  oauthMode?: 'redirect' | 'popup';
+  /**
+   * Offer passkey (WebAuthn) sign-in on SignInPage and passkey management in
+   * ProfilePage. Needs the `passkey*` endpoints on the backend.
+   */
+  passkeys?: boolean;
+  /**
+   * Show TOTP two-factor setup and recovery codes in ProfilePage. Needs the
+   * `mfa*` endpoints on the backend.
+   */
+  mfa?: boolean;
+  /**
+   * CAPTCHA / bot check run before sign-in, sign-up and forgot-password
+   * requests; its token goes in the request body or a header.
+   */
+  challengeProvider?: ChallengeProvider;
+  /** Offer passwordless sign-in by email on SignInPage (magic link or one-time code). */
+  passwordless?: PasswordlessConfig;
+  /**
+   * Sign in directly against an OpenID Connect provider (Authorization Code +
+   * PKCE) instead of the kit's backend endpoints. The login route then
+   * redirects to the IdP, and refresh and logout go to the IdP as well.
+   */
+  oidc?: OidcConfig;
   illustrationUrl?: string; // Add this new prop
   communityContent?: {
     title: string;
     description: string;
   };
 
+  /** Rendered by protected routes while the startup session check runs. */
+  bootScreen?: ComponentType;
+
+  /**
+   * Where to land after sign-in when no protected page was requested first
+   * (default "/").
+   */
+  defaultRedirect?: string;
+
+  /**
+   * Extra origins (e.g. "https://admin.example.com") that post-login redirects
+   * may target. Same-origin paths are always allowed; everything else is dropped.
+   */
+  allowedRedirectOrigins?: string[];
+
   /** Custom sign up URL to navigate to from SignInPage */
   customSignUpUrl?: string;
 
   /** Optional custom fields to add to the registration form */
   signUpCustomFields?: CustomField[];
-  /** Override the default signup API endpoint */
+  /**
+   * Override the default signup API endpoint
+   * @deprecated use `endpoints.register`
+   */
   signUpEndpoint?: string;
-  /** Format the outgoing payload before sending it to the signup endpoint */
+  /**
+   * Format the outgoing payload before sending it to the signup endpoint
+   * @deprecated use `endpoints.register.transformRequest`
+   */
   signUpTransformPayload?: (data: Record<string, unknown>) => Record<string, unknown>;
 }
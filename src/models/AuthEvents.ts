@@ -0,0 +1,40 @@
+// src/models/AuthEvents.ts
+import type { UserProfile } from './User';
+
+/** How a session started. */
+export type LoginSource =
+  | 'password'
+  | 'passkey'
+  | 'passwordless'
+  | 'oauth'
+  | 'oidc'
+  | 'bootstrap'
+  | 'remote';
+
+/** Why a session ended. */
+export type LogoutReason =
+  | 'user' // logout() called by the app
+  | 'expired' // refresh failed and the user confirmed the session-expired dialog
+  | 'idle' // inactivity timeout
+  | 'remote'; // logged out in another tab
+
+/** Event payloads; `TUser` is the provider's user type (see `claimMapper`). */
+export interface AuthEventMap<TUser extends UserProfile = UserProfile> {
+  login: { user: TUser; source: LoginSource };
+  logout: { reason: LogoutReason };
+  tokenRefreshed: { accessToken: string; expiresAt: number | null };
+  refreshFailed: { error: unknown };
+  sessionExpired: Record<string, never>;
+  userChanged: { user: TUser | null };
+}
+
+export type AuthEventType = keyof AuthEventMap;
+
+export type AuthEventHandler<K extends AuthEventType, TUser extends UserProfile = UserProfile> = (
+  payload: AuthEventMap<TUser>[K],
+) => void;
+
+export interface AuthEventBus<TUser extends UserProfile = UserProfile> {
+  emit<K extends AuthEventType>(type: K, payload: AuthEventMap<TUser>[K]): void;
+  on<K extends AuthEventType>(type: K, handler: AuthEventHandler<K, TUser>): () => void;
+}
@@ -0,0 +1,37 @@
+// src/models/Challenge.ts
+import type { ComponentType } from 'react';
+
+/** The form asking for a challenge token (also the reCAPTCHA / Turnstile action) */
+export type ChallengeAction = 'login' | 'signup' | 'forgotPassword';
+
+/**
+ * Bot check run right before sign-in, sign-up and forgot-password submits.
+ * See createRecaptchaV3Challenge / createHcaptchaChallenge /
+ * createTurnstileChallenge / createHoneypotChallenge / createNoopChallenge.
+ */
+export interface ChallengeProvider {
+  /** Resolve with a token for the backend to verify; reject to block the submit. */
+  getToken(action: ChallengeAction): Promise<string>;
+  /** Request body field carrying the token (default "captchaToken") */
+  field?: string;
+  /** Send the token in this request header instead of the body */
+  header?: string;
+  /** Rendered inside each protected form, for challenges that need markup */
+  Field?: ComponentType;
+}
+
+/** Where a built-in adapter puts its token */
+export interface ChallengeTarget {
+  field?: string;
+  header?: string;
+}
+
+export interface SiteKeyChallengeOptions extends ChallengeTarget {
+  siteKey: string;
+}
+
+/** hCaptcha and Turnstile, which may wait on the user */
+export interface InteractiveChallengeOptions extends SiteKeyChallengeOptions {
+  /** Give up (and reject) when no token arrives within this many seconds (default 120) */
+  timeoutSeconds?: number;
+}
@@ -0,0 +1,40 @@
+// src/models/Endpoints.ts
+
+export type AuthEndpointName =
+  | 'login'
+  | 'logout'
+  | 'refresh'
+  | 'me'
+  | 'updateMe'
+  | 'register'
+  | 'forgotPassword'
+  | 'resetPassword'
+  | 'mfaVerify'
+  | 'mfaEnroll'
+  | 'mfaConfirm'
+  | 'mfaDisable'
+  | 'mfaRecoveryCodes'
+  | 'passkeyLoginOptions'
+  | 'passkeyLogin'
+  | 'passkeyRegisterOptions'
+  | 'passkeyRegister'
+  | 'passkeys'
+  | 'passwordlessStart'
+  | 'passwordlessVerify'
+  | 'oauthExchange'
+  | 'identities';
+
+export interface EndpointConfig {
+  /** Path relative to `baseUrl`, e.g. "/api/auth/login" */
+  path: string;
+  /** Shape the outgoing body before it is sent */
+  transformRequest?: (data: Record<string, unknown>) => Record<string, unknown>;
+  /**
+   * Map the raw response body onto the shape the kit expects
+   * (the default backend's shape, e.g. `{ accessToken }` for login/refresh).
+   */
+  transformResponse?: (data: unknown) => unknown;
+}
+
+/** Either a bare path or a full endpoint config, per backend call. */
+export type AuthEndpoints = Partial<Record<AuthEndpointName, string | EndpointConfig>>;
@@ -0,0 +1,28 @@
+// src/models/Mfa.ts
+
+/** Second factors a challenge can be answered with. */
+export type MfaMethod = 'totp' | 'recovery';
+
+/** Returned by the login endpoint instead of tokens when a second factor is due. */
+export interface MfaChallenge {
+  /** Short-lived ticket identifying the half-finished sign-in */
+  mfaToken: string;
+  methods: MfaMethod[];
+}
+
+export interface MfaVerifyOptions {
+  /** The code is a one-time recovery code rather than a TOTP (default 'totp') */
+  method?: MfaMethod;
+  /** Ask the backend to skip MFA on this device next time */
+  trustDevice?: boolean;
+}
+
+/** Response of the `mfaEnroll` endpoint. */
+export interface TotpEnrollment {
+  /** Base32 secret for manual entry */
+  secret: string;
+  /** `otpauth://` URI encoded in the QR code */
+  otpauthUrl: string;
+  /** QR code image (data URL or https URL) rendered by the backend */
+  qrCode?: string;
+}
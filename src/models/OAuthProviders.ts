@@ -0,0 +1,43 @@
+export type BuiltInOAuthProviderId =
+  | 'google'
+  | 'microsoft'
+  | 'github'
+  | 'apple'
+  | 'gitlab'
+  | 'oidc';
+
+/**
+ * One OAuth/OIDC sign-in button. Fields left out fall back to the built-in
+ * entry with the same `id`, then to the `/api/auth/<id>` conventions.
+ */
+export interface OAuthProviderConfig {
+  id: BuiltInOAuthProviderId | (string & {});
+  label?: string;
+  /** Image URL (or imported asset) shown on the button */
+  icon?: string;
+  /** Backend route that starts the flow; relative to `baseUrl` unless absolute */
+  startUrl?: string;
+  /** Where the provider hands back to, sent as `redirectParam`; relative to the app origin unless absolute */
+  callbackPath?: string;
+  /** Query parameter carrying the callback URL (default `redirect`) */
+  redirectParam?: string;
+  /** Extra query parameters for the start URL (`prompt`, `tenant`, `scope`…) */
+  params?: Record<string, string>;
+}
+
+/** A provider account attached to the signed-in user */
+export interface LinkedIdentity {
+  /** Provider id, as in `oauthProviders` */
+  provider: string;
+  /** Account shown to the user, e.g. the provider-side email */
+  email?: string;
+  linkedAt?: string;
+}
+
+/** A built-in id, or a full/partial provider definition */
+export type OAuthProviderEntry = BuiltInOAuthProviderId | (string & {}) | OAuthProviderConfig;
+
+export type ResolvedOAuthProvider = Required<
+  Pick<OAuthProviderConfig, 'id' | 'label' | 'startUrl' | 'callbackPath' | 'redirectParam'>
+> &
+  Pick<OAuthProviderConfig, 'icon' | 'params'>;
@@ -0,0 +1,36 @@
+/**
+ * Talk to an OpenID Connect provider (Keycloak, Entra ID…) directly from the
+ * browser with the Authorization Code + PKCE flow, no backend proxy involved.
+ * Register the app as a public client with the `oidcCallback` route as redirect URI.
+ */
+export interface OidcConfig {
+  /** Issuer URL; `/.well-known/openid-configuration` is read from here */
+  issuer: string;
+  clientId: string;
+  /** default "openid profile email"; add "offline_access" if the IdP requires it for refresh tokens */
+  scope?: string;
+  /**
+   * Extra authorize-request parameters (`prompt`, `kc_idp_hint`, `domain_hint`…).
+   * They cannot replace the kit's own (`state`, `nonce`, `code_challenge`, …).
+   */
+  authParams?: Record<string, string>;
+  /** Where the IdP sends the browser after RP-initiated logout (default: the app origin) */
+  postLogoutRedirectUri?: string;
+}
+
+/** The discovery-document fields the client uses */
+export interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  end_session_endpoint?: string;
+}
+
+export interface OidcTokens {
+  accessToken: string;
+  refreshToken?: string;
+  idToken?: string;
+  /** Access-token expiry in ms since epoch, from `expires_in` (absent when the IdP omits it) */
+  expiresAt?: number;
+}
@@ -0,0 +1,54 @@
+// src/models/Passkeys.ts
+
+/** Credential descriptor as sent over the wire (binary `id` as base64url). */
+export interface PasskeyDescriptorJSON {
+  id: string;
+  type: 'public-key';
+  transports?: AuthenticatorTransport[];
+}
+
+/** `PublicKeyCredentialRequestOptions` with base64url strings for binary fields. */
+export interface PasskeyRequestOptionsJSON extends Omit<
+  PublicKeyCredentialRequestOptions,
+  'challenge' | 'allowCredentials'
+> {
+  challenge: string;
+  allowCredentials?: PasskeyDescriptorJSON[];
+}
+
+/** `PublicKeyCredentialCreationOptions` with base64url strings for binary fields. */
+export interface PasskeyCreationOptionsJSON extends Omit<
+  PublicKeyCredentialCreationOptions,
+  'challenge' | 'user' | 'excludeCredentials'
+> {
+  challenge: string;
+  user: Omit<PublicKeyCredentialUserEntity, 'id'> & { id: string };
+  excludeCredentials?: PasskeyDescriptorJSON[];
+}
+
+/** A `PublicKeyCredential` serialised for the backend. */
+export interface PasskeyCredentialJSON {
+  id: string;
+  rawId: string;
+  type: string;
+  authenticatorAttachment?: string | null;
+  response: {
+    clientDataJSON: string;
+    /** assertion only */
+    authenticatorData?: string;
+    signature?: string;
+    userHandle?: string | null;
+    /** registration only */
+    attestationObject?: string;
+    transports?: string[];
+  };
+  clientExtensionResults: AuthenticationExtensionsClientOutputs;
+}
+
+/** A registered passkey as listed by the `passkeys` endpoint. */
+export interface Passkey {
+  id: string;
+  name: string;
+  createdAt?: string;
+  lastUsedAt?: string | null;
+}
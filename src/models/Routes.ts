@@ -0,0 +1,29 @@
+// src/models/Routes.ts
+import type { ReactElement } from 'react';
+
+/** Pages AuthProvider mounts on its own unless running headless. */
+export type AuthRouteName =
+  | 'login'
+  | 'signup'
+  | 'verifyEmail'
+  | 'forgotPassword'
+  | 'resetPassword'
+  | 'mfa'
+  | 'magicLink'
+  | 'oidcCallback'
+  | 'oauthCallback'
+  | 'googleCallback'
+  | 'microsoftCallback';
+
+export interface AuthRouteConfig {
+  /** Path of the page, relative to `basePath` */
+  path?: string;
+  /**
+   * Rendered instead of the built-in page. `null` mounts nothing, e.g. when the
+   * app routes to its own page at `path` (links from other pages still use it).
+   */
+  element?: ReactElement | null;
+}
+
+/** A new path, `false` to unmount the built-in page, or a full route config. */
+export type AuthRoutes = Partial<Record<AuthRouteName, string | false | AuthRouteConfig>>;
@@ -0,0 +1,28 @@
+// src/models/TokenStorage.ts
+
+/**
+ * Where the kit keeps auth tokens on the client.
+ * Keys are the token names (e.g. "authToken", "refreshToken").
+ */
+export interface TokenStorage {
+  get(key: string): string | null;
+  set(key: string, value: string): void;
+  remove(key: string): void;
+  /**
+   * Storages that support "Remember me" switch here between durable
+   * (`true`) and browser-session (`false`) persistence for later writes.
+   */
+  setPersistent?(persistent: boolean): void;
+}
+
+export interface CookieTokenStorageOptions {
+  /** Cookie path (default "/") */
+  path?: string;
+  domain?: string;
+  /** Lifetime in seconds; omit for a browser-session cookie */
+  maxAge?: number;
+  /** default "Strict" */
+  sameSite?: 'Strict' | 'Lax' | 'None';
+  /** default true */
+  secure?: boolean;
+}
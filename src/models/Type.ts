@@ -11,4 +11,18 @@ export interface InputFieldProps {
   color: string;
   value?: string;
   onChange?: (newValue: string) => void;
+  /** e.g. "username webauthn" to offer passkeys from autofill */
+  autoComplete?: string;
+}
+
+export interface OtpInputProps {
+  /** Number of digits (default 6) */
+  length?: number;
+  value: string;
+  onChange: (newValue: string) => void;
+  /** Accessible name of the group; each box is labelled "<label> <n>" */
+  label: string;
+  color?: string;
+  autoFocus?: boolean;
+  disabled?: boolean;
 }
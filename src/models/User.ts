@@ -4,7 +4,7 @@ export interface RoleWithPerms {
   permissions: string[];
 }
 
-export interface UserProfile {
+export interface BaseUserProfile {
   id: string;
   email: string;
   name?: string | null;
@@ -13,5 +13,22 @@ export interface UserProfile {
   permissions?: string[]; // or a more complex shape // ["menus:create","menus:read", …]
   modules: string[]; // ["menus","inventory"]
   tenantId: string;
-  // add more fields as needed
 }
+
+/**
+ * The signed-in user. Pass your own fields as `TExtra` to type custom
+ * claims end to end, e.g. `UserProfile<{ plan: 'free' | 'pro' }>`.
+ */
+export type UserProfile<TExtra extends object = Record<never, never>> = BaseUserProfile & TExtra;
+
+/** Raw JWT payload, including namespaced / custom claims. */
+export type JwtClaims = Record<string, unknown>;
+
+/**
+ * Build the user from the token claims. `defaults` is the kit's standard
+ * mapping of the flat `sub/email/roles/permissions/modules/tenantId` claims.
+ */
+export type ClaimMapper<TUser extends UserProfile = UserProfile> = (
+  claims: JwtClaims,
+  defaults: UserProfile,
+) => TUser;
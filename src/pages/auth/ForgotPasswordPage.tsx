@@ -5,18 +5,26 @@ import { InputField } from '../../components/actions/InputField';
 import { InlineError } from '../../components/InlineError';
 import { useAuthConfig } from '../../context/AuthConfigContext';
 import { useAuthState } from '../../context/AuthStateContext';
+import { useAuthRoute } from '../../hooks/useAuthRoute';
+import { useEndpoint } from '../../hooks/useEndpoint';
+import { useRateLimit } from '../../hooks/useRateLimit';
+import { solveChallenge } from '../../utils/challengeProviders';
 import { toTailwindColorClasses } from '../../utils/colorHelpers';
 import { extractHttpErrorMessage } from '../../utils/errorHelpers';
 
 export const ForgotPasswordPage: React.FC = () => {
   const t = useT('authLib');
   const navigate = useNavigate();
+  const loginPath = useAuthRoute('login');
   const {
     colors,
     brandName = t('brandName', { defaultValue: 'MyBrand' }),
     logoUrl,
+    challengeProvider,
   } = useAuthConfig();
+  const ChallengeField = challengeProvider?.Field;
   const { api } = useAuthState();
+  const forgotEndpoint = useEndpoint('forgotPassword');
 
   const { bgClass, textClass, borderClass } = toTailwindColorClasses(colors);
   const gradientClass = `${bgClass} bg-gradient-to-r from-white/10 via-white/0 to-white/0`;
@@ -25,20 +33,25 @@ export const ForgotPasswordPage: React.FC = () => {
   const [pending, setPending] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [sent, setSent] = useState(false);
+  const rateLimit = useRateLimit();
 
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
-    if (pending) return;
+    if (pending || rateLimit.blocked) return;
     setError(null);
     setPending(true);
     try {
-      await api.post('/api/auth/forgot-password', { email });
+      const challenge = await solveChallenge(challengeProvider, 'forgotPassword');
+      await api.post(
+        forgotEndpoint.path,
+        forgotEndpoint.transformRequest({ email, ...challenge.fields }),
+        challenge.config,
+      );
       // Always show generic success regardless of user existence
       setSent(true);
     } catch (err) {
-      // Show backend error details.message via InlineError
-      const msg = extractHttpErrorMessage(err);
-      setError(msg);
+      // Show backend error details.message via InlineError (or the countdown when throttled)
+      if (!rateLimit.track(err)) setError(extractHttpErrorMessage(err));
       setSent(false);
     } finally {
       setPending(false);
@@ -62,7 +75,7 @@ export const ForgotPasswordPage: React.FC = () => {
             )}
             <button
               type="button"
-              onClick={() => navigate('/login')}
+              onClick={() => navigate(loginPath)}
               className={`text-sm ${textClass}`}
             >
               {t('ForgotPasswordPage.backToLogin', { defaultValue: 'Back to Sign In' })}
@@ -79,6 +92,14 @@ export const ForgotPasswordPage: React.FC = () => {
           </p>
 
           {error && <InlineError message={error} />}
+          {rateLimit.notice && (
+            <p
+              role="status"
+              className="mt-4 rounded-lg border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800"
+            >
+              {rateLimit.notice}
+            </p>
+          )}
 
           {sent ? (
             <div className="mt-6 rounded-lg border border-green-300 bg-green-50 p-4 text-green-800 text-sm">
@@ -97,9 +118,10 @@ export const ForgotPasswordPage: React.FC = () => {
                 value={email}
                 onChange={setEmail}
               />
+              {ChallengeField && <ChallengeField />}
               <button
                 type="submit"
-                disabled={pending || !email}
+                disabled={pending || !email || rateLimit.blocked}
                 className={`relative flex w-full items-center justify-center gap-2 py-3 rounded-lg font-medium transition-colors ${
                   pending ? 'opacity-60 cursor-not-allowed' : ''
                 } ${bgClass} text-white`}
@@ -0,0 +1,90 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useT } from '@ciscode/ui-translate-core';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useAuthConfig } from '../../context/AuthConfigContext';
+import { useAuthState } from '../../context/AuthStateContext';
+import { useAuthRoute } from '../../hooks/useAuthRoute';
+import { toTailwindColorClasses } from '../../utils/colorHelpers';
+import { extractHttpErrorMessage } from '../../utils/errorHelpers';
+
+export const MagicLinkPage: React.FC = () => {
+  const t = useT('authLib');
+  const navigate = useNavigate();
+  const loginPath = useAuthRoute('login');
+  const [params] = useSearchParams();
+  const token = params.get('token');
+
+  const {
+    colors,
+    brandName = t('brandName', { defaultValue: 'MyBrand' }),
+    logoUrl,
+  } = useAuthConfig();
+  const { loginWithPasswordless } = useAuthState();
+
+  const { bgClass, textClass, borderClass } = toTailwindColorClasses(colors);
+  const gradientClass = `${bgClass} bg-gradient-to-r from-white/10 via-white/0 to-white/0`;
+
+  const [error, setError] = useState<string | null>(() =>
+    token
+      ? null
+      : t('MagicLinkPage.missingToken', { defaultValue: 'This sign-in link is incomplete.' }),
+  );
+
+  // links are single-use: never submit the same token twice (StrictMode, re-renders)
+  const consumed = useRef(false);
+  useEffect(() => {
+    if (!token || consumed.current) return;
+    consumed.current = true;
+    // keep the token out of the address bar and history once it is spent
+    window.history.replaceState(window.history.state, '', window.location.pathname);
+    loginWithPasswordless({ token }).catch((err: unknown) =>
+      setError(extractHttpErrorMessage(err)),
+    );
+  }, [token, loginWithPasswordless]);
+
+  return (
+    <div className={`flex items-center justify-center min-h-screen p-4 ${gradientClass}`}>
+      <div className="flex w-full max-w-xl bg-white rounded-2xl shadow-2xl overflow-hidden">
+        <div className="w-full p-6 md:p-8">
+          <div className="flex items-center justify-between mb-6">
+            {logoUrl ? (
+              <img
+                loading="lazy"
+                src={logoUrl}
+                alt="Brand Logo"
+                className={`h-10 rounded-lg border ${borderClass}`}
+              />
+            ) : (
+              <h2 className="text-xl font-bold">{brandName}</h2>
+            )}
+          </div>
+
+          {error ? (
+            <>
+              <h1 className="text-2xl md:text-3xl font-bold text-gray-800">
+                {t('MagicLinkPage.failedTitle', { defaultValue: 'We couldn’t sign you in' })}
+              </h1>
+              <p role="alert" className="mt-2 text-sm text-gray-600">
+                {error}{' '}
+                {t('MagicLinkPage.failedHint', {
+                  defaultValue: 'Links expire and work only once — request a new one.',
+                })}
+              </p>
+              <button
+                type="button"
+                onClick={() => navigate(loginPath, { replace: true })}
+                className={`mt-6 text-sm ${textClass}`}
+              >
+                {t('MagicLinkPage.backToLogin', { defaultValue: 'Back to Sign In' })}
+              </button>
+            </>
+          ) : (
+            <h1 className="text-2xl md:text-3xl font-bold text-gray-800">
+              {t('MagicLinkPage.signingIn', { defaultValue: 'Signing you in…' })}
+            </h1>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { useT } from '@ciscode/ui-translate-core';
+import { Navigate, useNavigate } from 'react-router-dom';
+import { InputField } from '../../components/actions/InputField';
+import { OtpInput } from '../../components/actions/OtpInput';
+import { InlineError } from '../../components/InlineError';
+import { useAuthConfig } from '../../context/AuthConfigContext';
+import { useAuthState } from '../../context/AuthStateContext';
+import { useAuthRoute } from '../../hooks/useAuthRoute';
+import type { MfaMethod } from '../../models/Mfa';
+import { toTailwindColorClasses } from '../../utils/colorHelpers';
+import { extractHttpErrorMessage } from '../../utils/errorHelpers';
+
+const CODE_LENGTH = 6;
+
+export const MfaChallengePage: React.FC = () => {
+  const t = useT('authLib');
+  const navigate = useNavigate();
+  const loginPath = useAuthRoute('login');
+  const {
+    colors,
+    brandName = t('brandName', { defaultValue: 'MyBrand' }),
+    logoUrl,
+  } = useAuthConfig();
+  const { mfaChallenge, verifyMfa } = useAuthState();
+
+  const { bgClass, textClass, borderClass } = toTailwindColorClasses(colors);
+  const gradientClass = `${bgClass} bg-gradient-to-r from-white/10 via-white/0 to-white/0`;
+
+  const [method, setMethod] = useState<MfaMethod>('totp');
+  const [code, setCode] = useState('');
+  const [trustDevice, setTrustDevice] = useState(false);
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // reached directly (reload, bookmark): the ticket only lives in memory
+  if (!mfaChallenge) return <Navigate to={loginPath} replace />;
+
+  const canUseRecovery = mfaChallenge.methods.includes('recovery');
+  const valid = method === 'totp' ? code.length === CODE_LENGTH : code.trim().length > 0;
+
+  function switchMethod(next: MfaMethod) {
+    setMethod(next);
+    setCode('');
+    setError(null);
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (pending || !valid) return;
+    setError(null);
+    setPending(true);
+    try {
+      await verifyMfa(code.trim(), { method, trustDevice });
+    } catch (err) {
+      setError(extractHttpErrorMessage(err));
+      setCode('');
+    } finally {
+      setPending(false);
+    }
+  }
+
+  return (
+    <div className={`flex items-center justify-center min-h-screen p-4 ${gradientClass}`}>
+      <div className="flex w-full max-w-xl bg-white rounded-2xl shadow-2xl overflow-hidden">
+        <div className="w-full p-6 md:p-8">
+          <div className="flex items-center justify-between mb-6">
+            {logoUrl ? (
+              <img
+                loading="lazy"
+                src={logoUrl}
+                alt="Brand Logo"
+                className={`h-10 rounded-lg border ${borderClass}`}
+              />
+            ) : (
+              <h2 className="text-xl font-bold">{brandName}</h2>
+            )}
+            <button
+              type="button"
+              onClick={() => navigate(loginPath, { replace: true })}
+              className={`text-sm ${textClass}`}
+            >
+              {t('MfaChallengePage.backToLogin', { defaultValue: 'Back to Sign In' })}
+            </button>
+          </div>
+
+          <h1 className="text-2xl md:text-3xl font-bold text-gray-800">
+            {t('MfaChallengePage.title', { defaultValue: 'Two-step verification' })}
+          </h1>
+          <p className="mt-2 text-sm text-gray-600">
+            {method === 'totp'
+              ? t('MfaChallengePage.totpSubtitle', {
+                  defaultValue: 'Enter the 6-digit code from your authenticator app.',
+                })
+              : t('MfaChallengePage.recoverySubtitle', {
+                  defaultValue: 'Enter one of your recovery codes.',
+                })}
+          </p>
+
+          {error && <InlineError message={error} />}
+
+          <form className="space-y-6 mt-4" onSubmit={handleSubmit}>
+            {method === 'totp' ? (
+              <OtpInput
+                length={CODE_LENGTH}
+                value={code}
+                onChange={setCode}
+                label={t('MfaChallengePage.codeLabel', { defaultValue: 'Verification code' })}
+                color={borderClass}
+                disabled={pending}
+                autoFocus
+              />
+            ) : (
+              <InputField
+                label={t('MfaChallengePage.recoveryLabel', { defaultValue: 'Recovery code' })}
+                type="text"
+                placeholder="xxxx-xxxx"
+                color={borderClass}
+                value={code}
+                onChange={setCode}
+              />
+            )}
+
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={trustDevice}
+                onChange={(e) => setTrustDevice(e.target.checked)}
+              />
+              {t('MfaChallengePage.trustDevice', {
+                defaultValue: 'Trust this device and skip this step next time',
+              })}
+            </label>
+
+            <button
+              type="submit"
+              disabled={pending || !valid}
+              className={`relative flex w-full items-center justify-center gap-2 py-3 rounded-lg font-medium transition-colors ${
+                pending ? 'opacity-60 cursor-not-allowed' : ''
+              } ${bgClass} text-white`}
+            >
+              {pending && (
+                <svg
+                  className="h-4 w-4 animate-spin stroke-current"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                >
+                  <circle className="opacity-25" cx="12" cy="12" r="10" strokeWidth="4" />
+                  <path
+                    className="opacity-75"
+                    d="M4 12a8 8 0 018-8"
+                    strokeWidth="4"
+                    strokeLinecap="round"
+                  />
+                </svg>
+              )}
+              {t('MfaChallengePage.verify', { defaultValue: 'Verify' })}
+            </button>
+          </form>
+
+          {canUseRecovery && (
+            <button
+              type="button"
+              onClick={() => switchMethod(method === 'totp' ? 'recovery' : 'totp')}
+              className={`mt-4 text-sm ${textClass}`}
+            >
+              {method === 'totp'
+                ? t('MfaChallengePage.useRecovery', { defaultValue: 'Use a recovery code instead' })
+                : t('MfaChallengePage.useTotp', { defaultValue: 'Use your authenticator app' })}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
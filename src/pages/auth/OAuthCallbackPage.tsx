@@ -0,0 +1,121 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useT } from '@ciscode/ui-translate-core';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { useAuthConfig } from '../../context/AuthConfigContext';
+import { useAuthRoute } from '../../hooks/useAuthRoute';
+import { useOAuthCallback } from '../../hooks/useOAuthCallback';
+import { toTailwindColorClasses } from '../../utils/colorHelpers';
+import { extractHttpErrorMessage } from '../../utils/errorHelpers';
+import { postToOpener } from '../../utils/oauthPopup';
+import { OAUTH_LINK_ERROR_KEY, OAUTH_LINK_KEY } from '../../utils/oauthProviders';
+import { consumeRedirectIntent } from '../../utils/redirectIntent';
+
+/** Fragment first (never sent to servers or logged), then the query string. */
+function readCallbackParams(search: string, hash: string): URLSearchParams {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  new URLSearchParams(search).forEach((value, key) => {
+    if (!params.has(key)) params.set(key, value);
+  });
+  return params;
+}
+
+/**
+ * Where the backend sends the browser after any OAuth provider. Accepts an
+ * access token (`#accessToken=…`) or a one-time `code` to exchange, checks the
+ * `state` issued when the flow started, and signs in without a reload. In a
+ * popup (`oauthMode: 'popup'`) it hands the result to the opener instead.
+ */
+export const OAuthCallbackPage: React.FC = () => {
+  const t = useT('authLib');
+  const navigate = useNavigate();
+  const { search, hash } = useLocation();
+  const loginPath = useAuthRoute('login');
+  const {
+    colors,
+    brandName = t('brandName', { defaultValue: 'MyBrand' }),
+    logoUrl,
+    defaultRedirect,
+    allowedRedirectOrigins,
+  } = useAuthConfig();
+  const finishOAuth = useOAuthCallback();
+
+  const { bgClass, textClass, borderClass } = toTailwindColorClasses(colors);
+  const gradientClass = `${bgClass} bg-gradient-to-r from-white/10 via-white/0 to-white/0`;
+
+  const [error, setError] = useState<string | null>(null);
+
+  // tokens and codes are single-use: handle the callback once (StrictMode, re-renders)
+  const handled = useRef(false);
+  useEffect(() => {
+    if (handled.current) return;
+    handled.current = true;
+
+    const params = readCallbackParams(search, hash);
+    // keep tokens out of the history entry, whatever happens next
+    window.history.replaceState(window.history.state, '', window.location.pathname);
+
+    const linking = sessionStorage.getItem(OAUTH_LINK_KEY) !== null;
+    sessionStorage.removeItem(OAUTH_LINK_KEY);
+
+    // popup mode: the opener signs in, this window just reports back
+    if (postToOpener(params)) return;
+
+    // "connect account" from ProfilePage: back there, with any error for it to show
+    if (linking) {
+      finishOAuth(params, { link: true })
+        .catch((err: unknown) =>
+          sessionStorage.setItem(OAUTH_LINK_ERROR_KEY, extractHttpErrorMessage(err)),
+        )
+        .finally(() =>
+          navigate(consumeRedirectIntent(defaultRedirect, allowedRedirectOrigins), {
+            replace: true,
+          }),
+        );
+      return;
+    }
+    finishOAuth(params).catch((err: unknown) => setError(extractHttpErrorMessage(err)));
+  }, [search, hash, finishOAuth, navigate, defaultRedirect, allowedRedirectOrigins]);
+
+  return (
+    <div className={`flex items-center justify-center min-h-screen p-4 ${gradientClass}`}>
+      <div className="flex w-full max-w-xl bg-white rounded-2xl shadow-2xl overflow-hidden">
+        <div className="w-full p-6 md:p-8">
+          <div className="flex items-center justify-between mb-6">
+            {logoUrl ? (
+              <img
+                loading="lazy"
+                src={logoUrl}
+                alt="Brand Logo"
+                className={`h-10 rounded-lg border ${borderClass}`}
+              />
+            ) : (
+              <h2 className="text-xl font-bold">{brandName}</h2>
+            )}
+          </div>
+
+          {error ? (
+            <>
+              <h1 className="text-2xl md:text-3xl font-bold text-gray-800">
+                {t('OAuthCallbackPage.failedTitle', { defaultValue: 'We couldn’t sign you in' })}
+              </h1>
+              <p role="alert" className="mt-2 text-sm text-gray-600">
+                {error}
+              </p>
+              <button
+                type="button"
+                onClick={() => navigate(loginPath, { replace: true })}
+                className={`mt-6 text-sm ${textClass}`}
+              >
+                {t('OAuthCallbackPage.retry', { defaultValue: 'Try again' })}
+              </button>
+            </>
+          ) : (
+            <h1 className="text-2xl md:text-3xl font-bold text-gray-800">
+              {t('OAuthCallbackPage.signingIn', { defaultValue: 'Signing you in…' })}
+            </h1>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,80 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useT } from '@ciscode/ui-translate-core';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { useAuthConfig } from '../../context/AuthConfigContext';
+import { useAuthState } from '../../context/AuthStateContext';
+import { useAuthRoute } from '../../hooks/useAuthRoute';
+import { toTailwindColorClasses } from '../../utils/colorHelpers';
+import { extractHttpErrorMessage } from '../../utils/errorHelpers';
+
+/** Redirect URI of the OIDC code flow. */
+export const OidcCallbackPage: React.FC = () => {
+  const t = useT('authLib');
+  const navigate = useNavigate();
+  const { search } = useLocation();
+  const loginPath = useAuthRoute('login');
+  const {
+    colors,
+    brandName = t('brandName', { defaultValue: 'MyBrand' }),
+    logoUrl,
+  } = useAuthConfig();
+  const { handleOidcCallback } = useAuthState();
+
+  const { bgClass, textClass, borderClass } = toTailwindColorClasses(colors);
+  const gradientClass = `${bgClass} bg-gradient-to-r from-white/10 via-white/0 to-white/0`;
+
+  const [error, setError] = useState<string | null>(null);
+
+  // authorization codes are single-use: redeem once (StrictMode, re-renders)
+  const handled = useRef(false);
+  useEffect(() => {
+    if (handled.current) return;
+    handled.current = true;
+    // keep the spent code and state out of the address bar and history
+    window.history.replaceState(window.history.state, '', window.location.pathname);
+    handleOidcCallback(search).catch((err: unknown) => setError(extractHttpErrorMessage(err)));
+  }, [search, handleOidcCallback]);
+
+  return (
+    <div className={`flex items-center justify-center min-h-screen p-4 ${gradientClass}`}>
+      <div className="flex w-full max-w-xl bg-white rounded-2xl shadow-2xl overflow-hidden">
+        <div className="w-full p-6 md:p-8">
+          <div className="flex items-center justify-between mb-6">
+            {logoUrl ? (
+              <img
+                loading="lazy"
+                src={logoUrl}
+                alt="Brand Logo"
+                className={`h-10 rounded-lg border ${borderClass}`}
+              />
+            ) : (
+              <h2 className="text-xl font-bold">{brandName}</h2>
+            )}
+          </div>
+
+          {error ? (
+            <>
+              <h1 className="text-2xl md:text-3xl font-bold text-gray-800">
+                {t('OidcCallbackPage.failedTitle', { defaultValue: 'We couldn’t sign you in' })}
+              </h1>
+              <p role="alert" className="mt-2 text-sm text-gray-600">
+                {error}
+              </p>
+              <button
+                type="button"
+                onClick={() => navigate(loginPath, { replace: true })}
+                className={`mt-6 text-sm ${textClass}`}
+              >
+                {t('OidcCallbackPage.retry', { defaultValue: 'Try again' })}
+              </button>
+            </>
+          ) : (
+            <h1 className="text-2xl md:text-3xl font-bold text-gray-800">
+              {t('OidcCallbackPage.signingIn', { defaultValue: 'Signing you in…' })}
+            </h1>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useT } from '@ciscode/ui-translate-core';
+import { useAuthConfig } from '../../context/AuthConfigContext';
+import { useAuthState } from '../../context/AuthStateContext';
+import { toTailwindColorClasses } from '../../utils/colorHelpers';
+import { extractHttpErrorMessage } from '../../utils/errorHelpers';
+
+/** Login route in OIDC mode: hands straight over to the identity provider. */
+export const OidcSignInPage: React.FC = () => {
+  const t = useT('authLib');
+  const {
+    colors,
+    brandName = t('brandName', { defaultValue: 'MyBrand' }),
+    logoUrl,
+  } = useAuthConfig();
+  const { loginWithOidc } = useAuthState();
+
+  const { bgClass, textClass, borderClass } = toTailwindColorClasses(colors);
+  const gradientClass = `${bgClass} bg-gradient-to-r from-white/10 via-white/0 to-white/0`;
+
+  const [error, setError] = useState<string | null>(null);
+
+  const start = useRef(() => {
+    setError(null);
+    loginWithOidc().catch((err: unknown) => setError(extractHttpErrorMessage(err)));
+  });
+  // once per mount; StrictMode's second run would start a second transaction
+  const started = useRef(false);
+  useEffect(() => {
+    if (started.current) return;
+    started.current = true;
+    start.current();
+  }, []);
+
+  return (
+    <div className={`flex items-center justify-center min-h-screen p-4 ${gradientClass}`}>
+      <div className="flex w-full max-w-xl bg-white rounded-2xl shadow-2xl overflow-hidden">
+        <div className="w-full p-6 md:p-8">
+          <div className="flex items-center justify-between mb-6">
+            {logoUrl ? (
+              <img
+                loading="lazy"
+                src={logoUrl}
+                alt="Brand Logo"
+                className={`h-10 rounded-lg border ${borderClass}`}
+              />
+            ) : (
+              <h2 className="text-xl font-bold">{brandName}</h2>
+            )}
+          </div>
+
+          {error ? (
+            <>
+              <h1 className="text-2xl md:text-3xl font-bold text-gray-800">
+                {t('OidcSignInPage.failedTitle', {
+                  defaultValue: 'The sign-in service is unavailable',
+                })}
+              </h1>
+              <p role="alert" className="mt-2 text-sm text-gray-600">
+                {error}
+              </p>
+              <button
+                type="button"
+                onClick={() => start.current()}
+                className={`mt-6 text-sm ${textClass}`}
+              >
+                {t('OidcSignInPage.retry', { defaultValue: 'Try again' })}
+              </button>
+            </>
+          ) : (
+            <h1 className="text-2xl md:text-3xl font-bold text-gray-800">
+              {t('OidcSignInPage.redirecting', { defaultValue: 'Redirecting to sign-in…' })}
+            </h1>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -5,12 +5,15 @@ import { InputField } from '../../components/actions/InputField';
 import { InlineError } from '../../components/InlineError';
 import { useAuthConfig } from '../../context/AuthConfigContext';
 import { useAuthState } from '../../context/AuthStateContext';
+import { useAuthRoute } from '../../hooks/useAuthRoute';
+import { useEndpoint } from '../../hooks/useEndpoint';
 import { toTailwindColorClasses } from '../../utils/colorHelpers';
 import { extractHttpErrorMessage } from '../../utils/errorHelpers';
 
 export const ResetPasswordPage: React.FC = () => {
   const t = useT('authLib');
   const navigate = useNavigate();
+  const loginPath = useAuthRoute('login');
   const location = useLocation();
 
   const {
@@ -19,6 +22,7 @@ export const ResetPasswordPage: React.FC = () => {
     logoUrl,
   } = useAuthConfig();
   const { api } = useAuthState();
+  const resetEndpoint = useEndpoint('resetPassword');
 
   const { bgClass, textClass, borderClass } = toTailwindColorClasses(colors);
   const gradientClass = `${bgClass} bg-gradient-to-r from-white/10 via-white/0 to-white/0`;
@@ -56,9 +60,9 @@ export const ResetPasswordPage: React.FC = () => {
 
     setPending(true);
     try {
-      await api.post('/api/auth/reset-password', { token, newPassword });
+      await api.post(resetEndpoint.path, resetEndpoint.transformRequest({ token, newPassword }));
       // On success, show brief confirmation then navigate to login
-      navigate('/login', { replace: true });
+      navigate(loginPath, { replace: true });
     } catch (err: unknown) {
       const msg = extractHttpErrorMessage(err);
       setError(msg);
@@ -84,7 +88,7 @@ export const ResetPasswordPage: React.FC = () => {
             )}
             <button
               type="button"
-              onClick={() => navigate('/login')}
+              onClick={() => navigate(loginPath)}
               className={`text-sm ${textClass}`}
             >
               {t('ResetPasswordPage.backToLogin', { defaultValue: 'Back to Sign In' })}
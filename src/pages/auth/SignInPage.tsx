@@ -1,27 +1,33 @@
 import { useT } from '@ciscode/ui-translate-core';
-import React, { useState } from 'react';
-import { Link, useLocation, useNavigate } from 'react-router-dom';
-import googleIcon from '../../assets/icons/google-icon-svgrepo-com.svg';
-import microsoftIcon from '../../assets/icons/microsoft-svgrepo-com.svg';
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
 import { InputField } from '../../components/actions/InputField';
-import { SocialButton } from '../../components/actions/SocialButton';
 import { InlineError } from '../../components/InlineError';
+import { OAuthProviderButtons } from '../../components/OAuthProviderButtons';
+import { PasswordlessForm } from '../../components/PasswordlessForm';
 import { useAuthConfig } from '../../context/AuthConfigContext';
 import { useAuthState } from '../../context/AuthStateContext';
+import { useAuthRoute } from '../../hooks/useAuthRoute';
+import { useRateLimit } from '../../hooks/useRateLimit';
 import { AuthConfigProps } from '../../models/AuthConfig';
 import { toTailwindColorClasses } from '../../utils/colorHelpers';
 import { extractHttpErrorMessage } from '../../utils/errorHelpers';
+import {
+  isConditionalMediationAvailable,
+  isPasskeyCancellation,
+  isPasskeySupported,
+} from '../../utils/webauthn';
 
 export const SignInPage: React.FC<AuthConfigProps> = () => {
   const t = useT('authLib');
   const navigate = useNavigate();
-  const location = useLocation();
+  const signUpPath = useAuthRoute('signup');
+  const forgotPasswordPath = useAuthRoute('forgotPassword');
 
   const {
     brandName = t('brandName', { defaultValue: 'MyBrand' }),
     colors = { bg: 'bg-sky-500', text: 'text-white', border: 'border-sky-500' },
     logoUrl,
-    oauthProviders = [],
     illustrationUrl = t('community.illustrationUrl', {
       defaultValue:
         'https://cdn.builder.io/api/v1/image/assets/TEMP/35ba84b8335fda2819c3a14ea3d00321a0fd0e79e571caa31108468010868ca5?placeholderIfAbsent=true&apiKey=a460e9a46e514356ac1106eada03046c',
@@ -30,15 +36,24 @@ export const SignInPage: React.FC<AuthConfigProps> = () => {
       title: t('community.title'),
       description: t('community.description'),
     },
-    baseUrl, // IMPORTANT: used for Google OAuth redirect
     customSignUpUrl,
+    passkeys = false,
+    passwordless,
+    rememberMe: offerRememberMe = false,
+    challengeProvider,
   } = useAuthConfig();
+  const ChallengeField = challengeProvider?.Field;
 
-  const { login } = useAuthState();
+  const { login, loginWithPasskey } = useAuthState();
+  const offerPasskey = passkeys && isPasskeySupported();
+  const conditionalRef = useRef<AbortController | null>(null);
 
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [rememberMe, setRememberMe] = useState(false);
   const [pending, setPending] = useState(false);
+  const rateLimit = useRateLimit();
+  const [passwordlessMode, setPasswordlessMode] = useState(false);
   // Read and clear any provider-level error at mount time via initializer (avoids set-state-in-effect)
   const [error, setError] = useState<string | null>(() => {
     const msg = sessionStorage.getItem('authErrorMessage');
@@ -46,73 +61,59 @@ export const SignInPage: React.FC<AuthConfigProps> = () => {
     return msg;
   });
 
-  const allProvidersData = {
-    google: { icon: googleIcon, label: t('social.google') },
-    microsoft: { icon: microsoftIcon, label: t('social.microsoft') },
-  } as const;
-
-  const providerButtons = oauthProviders
-    .filter((p) => p in allProvidersData)
-    .map((p) => ({
-      id: p,
-      icon: allProvidersData[p as keyof typeof allProvidersData].icon,
-      label: allProvidersData[p as keyof typeof allProvidersData].label,
-    }));
-
   const { bgClass, textClass, borderClass } = toTailwindColorClasses(colors);
   const gradientClass = `${bgClass} bg-gradient-to-r from-white/10 via-white/0 to-white/0`;
 
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
-    if (pending) return;
+    if (pending || rateLimit.blocked) return;
     setError(null);
     setPending(true);
     try {
-      await login({ email, password });
+      await login(offerRememberMe ? { email, password, rememberMe } : { email, password });
     } catch (err: unknown) {
-      const msg = extractHttpErrorMessage(err);
-      setError(msg);
+      // throttled / locked out: the countdown notice replaces the error
+      if (!rateLimit.track(err)) setError(extractHttpErrorMessage(err));
     } finally {
       setPending(false);
     }
   }
 
-  function handleProviderClick(providerId: string) {
-    if (!baseUrl) {
-      console.error('Auth baseUrl is not configured.');
-      return;
-    }
-
-    // Where to go AFTER successful OAuth login.
-    // If user was redirected here from a protected page, use that;
-    // otherwise, default to root "/".
-    const state = location.state as { from?: { pathname?: string } | string } | null;
-    const from = (typeof state?.from === 'object' ? state?.from?.pathname : state?.from) ?? '/';
-
-    // Save post-login redirect so callback route can restore it.
-    sessionStorage.setItem('postLoginRedirect', from);
-
-    if (providerId === 'google') {
-      const callbackPath = '/api/oauth/google/callback';
-      const callbackUrl = `${window.location.origin}${callbackPath}`;
-
-      const url = new URL(`${baseUrl}/api/auth/google`);
-      url.searchParams.set('redirect', callbackUrl);
-
-      // Full redirect to backend → Google → backend → frontend callback
-      window.location.href = url.toString();
-      return;
-    }
-
-    if (providerId === 'microsoft') {
-      const callbackPath = '/api/oauth/microsoft/callback';
-      const callbackUrl = `${window.location.origin}${callbackPath}`;
+  // latest loginWithPasskey, so a new context value does not restart autofill
+  const loginWithPasskeyRef = useRef(loginWithPasskey);
+  useEffect(() => {
+    loginWithPasskeyRef.current = loginWithPasskey;
+  });
 
-      const url = new URL(`${baseUrl}/api/auth/microsoft`);
-      url.searchParams.set('redirect', callbackUrl);
+  // Passkey autofill: a pending conditional request lets the browser list
+  // passkeys in the email field's suggestions.
+  useEffect(() => {
+    if (!offerPasskey) return;
+    const ctrl = new AbortController();
+    conditionalRef.current = ctrl;
+    isConditionalMediationAvailable().then((available) => {
+      if (!available || ctrl.signal.aborted) return;
+      loginWithPasskeyRef
+        .current({ conditional: true, signal: ctrl.signal })
+        .catch((err: unknown) => {
+          if (!isPasskeyCancellation(err)) setError(extractHttpErrorMessage(err));
+        });
+    });
+    return () => ctrl.abort();
+  }, [offerPasskey]);
 
-      window.location.href = url.toString();
-      return;
+  async function handlePasskeyClick() {
+    if (pending) return;
+    // only one WebAuthn request may be pending; the explicit one wins
+    conditionalRef.current?.abort();
+    setError(null);
+    setPending(true);
+    try {
+      await loginWithPasskey();
+    } catch (err: unknown) {
+      if (!isPasskeyCancellation(err)) setError(extractHttpErrorMessage(err));
+    } finally {
+      setPending(false);
     }
   }
 
@@ -197,7 +198,7 @@ export const SignInPage: React.FC<AuthConfigProps> = () => {
               <br />
               <button
                 type="button"
-                onClick={() => navigate(customSignUpUrl || '/signup')}
+                onClick={() => navigate(customSignUpUrl || signUpPath)}
                 className={textClass}
               >
                 {t('SignInPage.signUp')}
@@ -206,62 +207,95 @@ export const SignInPage: React.FC<AuthConfigProps> = () => {
           </div>
 
           {error && <InlineError message={error} />}
-
-          <form className="space-y-6" onSubmit={handleSubmit}>
-            <InputField
-              label={t('form.emailLabel', { defaultValue: 'Email' })}
-              type="email"
-              placeholder={t('form.emailPlaceholder', { defaultValue: 'name@company.com' })}
-              color={borderClass}
-              value={email}
-              onChange={setEmail}
-            />
-            <InputField
-              label={t('form.passwordLabel')}
-              type="password"
-              placeholder={t('form.passwordPlaceholder')}
-              color={borderClass}
-              value={password}
-              onChange={setPassword}
-            />
-            <div className="ltr:text-right rtl:text-left">
-              <Link to="/forgot-password" className={textClass}>
-                {t('SignInPage.forgotPassword')}
-              </Link>
-            </div>
-            <button
-              type="submit"
-              disabled={pending}
-              className={`relative flex w-full items-center justify-center gap-2 py-3 rounded-lg font-medium transition-colors ${
-                pending ? 'opacity-60 cursor-not-allowed' : ''
-              } ${bgClass} text-white`}
+          {rateLimit.notice && (
+            <p
+              role="status"
+              className="mt-4 rounded-lg border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800"
             >
-              {pending && spinner}
-              {pending ? t('SignInPage.signInSubmitting') : t('SignInPage.signIn')}
-            </button>
+              {rateLimit.notice}
+            </p>
+          )}
 
-            {providerButtons.length > 0 && (
-              <>
-                <div className="flex items-center pt-2">
-                  <div className={`flex-grow h-px ${bgClass}`} />
-                  <span className={`${textClass} mx-3 text-sm`}>{t('SignInPage.orLoginWith')}</span>
-                  <div className={`flex-grow h-px ${bgClass}`} />
-                </div>
-                <div className="flex gap-3 mb-6 justify-center md:justify-start">
-                  {providerButtons.map((btn) => (
-                    <button
-                      key={btn.id}
-                      type="button"
-                      onClick={() => handleProviderClick(btn.id)}
-                      className="flex-1"
-                    >
-                      <SocialButton icon={btn.icon} label={btn.label} />
-                    </button>
-                  ))}
-                </div>
-              </>
-            )}
-          </form>
+          {passwordless && passwordlessMode ? (
+            <PasswordlessForm {...passwordless} onCancel={() => setPasswordlessMode(false)} />
+          ) : (
+            <form className="space-y-6" onSubmit={handleSubmit}>
+              <InputField
+                label={t('form.emailLabel', { defaultValue: 'Email' })}
+                type="email"
+                placeholder={t('form.emailPlaceholder', { defaultValue: 'name@company.com' })}
+                color={borderClass}
+                value={email}
+                onChange={setEmail}
+                autoComplete={offerPasskey ? 'username webauthn' : 'username'}
+              />
+              <InputField
+                label={t('form.passwordLabel')}
+                type="password"
+                placeholder={t('form.passwordPlaceholder')}
+                color={borderClass}
+                value={password}
+                onChange={setPassword}
+              />
+              {ChallengeField && <ChallengeField />}
+              <div className="flex items-center justify-between gap-4">
+                {offerRememberMe ? (
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={rememberMe}
+                      onChange={(e) => setRememberMe(e.target.checked)}
+                    />
+                    {t('SignInPage.rememberMe', { defaultValue: 'Remember me' })}
+                  </label>
+                ) : (
+                  <span />
+                )}
+                <Link to={forgotPasswordPath} className={textClass}>
+                  {t('SignInPage.forgotPassword')}
+                </Link>
+              </div>
+              <button
+                type="submit"
+                disabled={pending || rateLimit.blocked}
+                className={`relative flex w-full items-center justify-center gap-2 py-3 rounded-lg font-medium transition-colors ${
+                  pending ? 'opacity-60 cursor-not-allowed' : ''
+                } ${bgClass} text-white`}
+              >
+                {pending && spinner}
+                {pending ? t('SignInPage.signInSubmitting') : t('SignInPage.signIn')}
+              </button>
+
+              {offerPasskey && (
+                <button
+                  type="button"
+                  onClick={handlePasskeyClick}
+                  disabled={pending}
+                  className={`flex w-full items-center justify-center gap-2 py-3 rounded-lg font-medium border ${borderClass} ${textClass}`}
+                >
+                  {t('SignInPage.passkey', { defaultValue: 'Sign in with a passkey' })}
+                </button>
+              )}
+
+              {passwordless && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setError(null);
+                    setPasswordlessMode(true);
+                  }}
+                  disabled={pending}
+                  className={`flex w-full items-center justify-center gap-2 py-3 rounded-lg font-medium border ${borderClass} ${textClass}`}
+                >
+                  {passwordless.method === 'link'
+                    ? t('SignInPage.emailLink', { defaultValue: 'Sign in with an email link' })
+                    : t('SignInPage.emailCode', { defaultValue: 'Sign in with an emailed code' })}
+                </button>
+              )}
+
+              <OAuthProviderButtons heading={t('SignInPage.orLoginWith')} onError={setError} />
+            </form>
+          )}
         </div>
       </div>
     </div>
@@ -1,26 +1,27 @@
 import { useT } from '@ciscode/ui-translate-core';
 import React, { useState } from 'react';
-import { useLocation, useNavigate } from 'react-router-dom';
-import googleIcon from '../../assets/icons/google-icon-svgrepo-com.svg';
-import microsoftIcon from '../../assets/icons/microsoft-svgrepo-com.svg';
+import { useNavigate } from 'react-router-dom';
 import { InputField } from '../../components/actions/InputField';
-import { SocialButton } from '../../components/actions/SocialButton';
 import { InlineError } from '../../components/InlineError';
+import { OAuthProviderButtons } from '../../components/OAuthProviderButtons';
 import { useAuthConfig } from '../../context/AuthConfigContext';
 import { useAuthState } from '../../context/AuthStateContext';
+import { useAuthRoute } from '../../hooks/useAuthRoute';
+import { useEndpoint } from '../../hooks/useEndpoint';
+import { useRateLimit } from '../../hooks/useRateLimit';
+import { solveChallenge } from '../../utils/challengeProviders';
 import { toTailwindColorClasses } from '../../utils/colorHelpers';
+import { DEFAULT_ENDPOINTS } from '../../utils/endpoints';
 import { extractHttpErrorMessage } from '../../utils/errorHelpers';
 
 export const SignUpPage: React.FC = () => {
   const t = useT('authLib');
   const navigate = useNavigate();
-  const location = useLocation();
 
   const {
     brandName = t('brandName', { defaultValue: 'MyBrand' }),
     colors = { bg: 'bg-sky-500', text: 'text-white', border: 'border-sky-500' },
     logoUrl,
-    oauthProviders = [],
     illustrationUrl = t('community.illustrationUrl', {
       defaultValue:
         'https://cdn.builder.io/api/v1/image/assets/TEMP/35ba84b8335fda2819c3a14ea3d00321a0fd0e79e571caa31108468010868ca5?placeholderIfAbsent=true&apiKey=a460e9a46e514356ac1106eada03046c',
@@ -29,13 +30,15 @@ export const SignUpPage: React.FC = () => {
       title: t('community.title'),
       description: t('community.description'),
     },
-    baseUrl, // IMPORTANT: used for OAuth redirect (same as SignIn)
     signUpCustomFields = [],
-    signUpEndpoint = '/api/auth/register',
-    signUpTransformPayload,
+    challengeProvider,
   } = useAuthConfig();
+  const ChallengeField = challengeProvider?.Field;
 
   const { api } = useAuthState();
+  const registerEndpoint = useEndpoint('register');
+  const loginPath = useAuthRoute('login');
+  const verifyEmailPath = useAuthRoute('verifyEmail');
 
   const [fname, setFname] = useState('');
   const [lname, setLname] = useState('');
@@ -45,6 +48,7 @@ export const SignUpPage: React.FC = () => {
   const [pending, setPending] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [agreed, setAgreed] = useState(false);
+  const rateLimit = useRateLimit();
 
   const [customValues, setCustomValues] = useState<Record<string, string>>(() => {
     const init: Record<string, string> = {};
@@ -54,103 +58,52 @@ export const SignUpPage: React.FC = () => {
     return init;
   });
 
-  const allProvidersData = {
-    google: { icon: googleIcon, label: t('social.google') },
-    microsoft: { icon: microsoftIcon, label: t('social.microsoft') },
-  } as const;
-
-  const providerButtons = oauthProviders
-    .filter((p) => p in allProvidersData)
-    .map((p) => ({
-      id: p,
-      icon: allProvidersData[p as keyof typeof allProvidersData].icon,
-      label: allProvidersData[p as keyof typeof allProvidersData].label,
-    }));
-
   const { bgClass, textClass, borderClass } = toTailwindColorClasses(colors);
   const gradientClass = `${bgClass} bg-gradient-to-r from-white/10 via-white/0 to-white/0`;
 
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
-    if (pending) return;
+    if (pending || rateLimit.blocked) return;
 
     setError(null);
     setPending(true);
 
     try {
-      let payload: Record<string, unknown> = {
+      const challenge = await solveChallenge(challengeProvider, 'signup');
+      const payload = registerEndpoint.transformRequest({
         fullname: { fname, lname },
         username,
         email,
         password,
         ...customValues,
-      };
-
-      if (signUpTransformPayload) {
-        payload = signUpTransformPayload(payload);
-      }
+        ...challenge.fields,
+      });
 
       // 1) Register the user dynamically
-      const { data } = await api.post(signUpEndpoint, payload);
+      const { data: raw } = await api.post(registerEndpoint.path, payload, challenge.config);
+      const data = registerEndpoint.transformResponse(raw) as { emailSent?: boolean } | undefined;
 
       // 2) Redirect based on API response
       // Either verify email or go to login
       if (data?.emailSent) {
-        navigate(`/verify-email?email=${encodeURIComponent(email)}`, { replace: true });
+        navigate(`${verifyEmailPath}?email=${encodeURIComponent(email)}`, { replace: true });
         return;
-      } else if (signUpEndpoint !== '/api/auth/register') {
+      } else if (registerEndpoint.path !== DEFAULT_ENDPOINTS.register) {
         // Assume custom wizard flow implies a redirect to login when email verify is bypassed
-        navigate('/login?registered=true', { replace: true });
+        navigate(`${loginPath}?registered=true`, { replace: true });
         return;
       }
 
       // Fallback: still guide user to verify page
-      navigate(`/verify-email?email=${encodeURIComponent(email)}`, { replace: true });
+      navigate(`${verifyEmailPath}?email=${encodeURIComponent(email)}`, { replace: true });
       return;
     } catch (err: unknown) {
-      const msg = extractHttpErrorMessage(err);
-      setError(msg);
+      if (!rateLimit.track(err)) setError(extractHttpErrorMessage(err));
     } finally {
       setPending(false);
     }
   }
 
-  function handleProviderClick(providerId: string) {
-    if (!baseUrl) {
-      console.error('Auth baseUrl is not configured.');
-      return;
-    }
-
-    // Where to go AFTER successful OAuth login.
-    const state = location.state as { from?: { pathname?: string } | string } | null;
-    const from = (typeof state?.from === 'object' ? state?.from?.pathname : state?.from) ?? '/';
-
-    // Save post-login redirect so callback route can restore it.
-    sessionStorage.setItem('postLoginRedirect', from);
-
-    if (providerId === 'google') {
-      const callbackPath = '/api/oauth/google/callback';
-      const callbackUrl = `${window.location.origin}${callbackPath}`;
-
-      const url = new URL(`${baseUrl}/api/auth/google`);
-      url.searchParams.set('redirect', callbackUrl);
-
-      window.location.href = url.toString();
-      return;
-    }
-
-    if (providerId === 'microsoft') {
-      const callbackPath = '/api/oauth/microsoft/callback';
-      const callbackUrl = `${window.location.origin}${callbackPath}`;
-
-      const url = new URL(`${baseUrl}/api/auth/microsoft`);
-      url.searchParams.set('redirect', callbackUrl);
-
-      window.location.href = url.toString();
-      return;
-    }
-  }
-
   const spinner = (
     <svg className="h-4 w-4 animate-spin stroke-current" viewBox="0 0 24 24" fill="none">
       <circle className="opacity-25" cx="12" cy="12" r="10" strokeWidth="4" />
@@ -232,13 +185,21 @@ export const SignUpPage: React.FC = () => {
                 defaultValue: 'Already have an account?',
               })}
               <br />
-              <button type="button" onClick={() => navigate('/login')} className={textClass}>
+              <button type="button" onClick={() => navigate(loginPath)} className={textClass}>
                 {t('SignUpPage.signIn', { defaultValue: 'Sign in' })}
               </button>
             </div>
           </div>
 
           {error && <InlineError message={error} />}
+          {rateLimit.notice && (
+            <p
+              role="status"
+              className="mt-4 rounded-lg border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800"
+            >
+              {rateLimit.notice}
+            </p>
+          )}
 
           <form className="space-y-6" onSubmit={handleSubmit}>
             <div className="flex gap-2">
@@ -322,6 +283,8 @@ export const SignUpPage: React.FC = () => {
               );
             })}
 
+            {ChallengeField && <ChallengeField />}
+
             <div className="flex items-center gap-2">
               <input
                 id="agree"
@@ -338,7 +301,7 @@ export const SignUpPage: React.FC = () => {
 
             <button
               type="submit"
-              disabled={pending}
+              disabled={pending || rateLimit.blocked}
               className={`relative flex w-full items-center justify-center gap-2 py-3 rounded-lg font-medium transition-colors ${pending ? 'opacity-60 cursor-not-allowed' : ''} ${bgClass} text-white`}
             >
               {pending && spinner}
@@ -349,32 +312,10 @@ export const SignUpPage: React.FC = () => {
                 : t('SignUpPage.signUp', { defaultValue: 'Sign up' })}
             </button>
 
-            {providerButtons.length > 0 && (
-              <>
-                <div className="flex items-center pt-2">
-                  <div className={`flex-grow h-px ${bgClass}`} />
-                  <span className={`${textClass} mx-3 text-sm`}>
-                    {t('SignUpPage.orContinueWith', {
-                      defaultValue: 'Or continue with',
-                    })}
-                  </span>
-                  <div className={`flex-grow h-px ${bgClass}`} />
-                </div>
-
-                <div className="flex gap-3 mb-6 justify-center md:justify-start">
-                  {providerButtons.map((btn) => (
-                    <button
-                      key={btn.id}
-                      type="button"
-                      onClick={() => handleProviderClick(btn.id)}
-                      className="flex-1"
-                    >
-                      <SocialButton icon={btn.icon} label={btn.label} />
-                    </button>
-                  ))}
-                </div>
-              </>
-            )}
+            <OAuthProviderButtons
+              heading={t('SignUpPage.orContinueWith', { defaultValue: 'Or continue with' })}
+              onError={setError}
+            />
           </form>
         </div>
       </div>
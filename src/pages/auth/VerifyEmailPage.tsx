@@ -1,12 +1,14 @@
 import React from 'react';
 import { useT } from '@ciscode/ui-translate-core';
 import { useAuthConfig } from '../../context/AuthConfigContext';
+import { useAuthRoute } from '../../hooks/useAuthRoute';
 import { toTailwindColorClasses } from '../../utils/colorHelpers';
 import { useSearchParams, useNavigate } from 'react-router-dom';
 
 export const VerifyEmailPage: React.FC = () => {
   const t = useT('authLib');
   const navigate = useNavigate();
+  const loginPath = useAuthRoute('login');
   const [params] = useSearchParams();
   const email = params.get('email') || '';
 
@@ -134,7 +136,7 @@ export const VerifyEmailPage: React.FC = () => {
               </button>
               <button
                 type="button"
-                onClick={() => navigate('/login')}
+                onClick={() => navigate(loginPath)}
                 className={`px-4 py-2 rounded-md ${bgClass} text-white`}
               >
                 {t('VerifyEmailPage.backToLogin', { defaultValue: 'Back to sign in' })}
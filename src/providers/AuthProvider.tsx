@@ -1,83 +1,295 @@
 import axios from 'axios';
-import React, { useEffect, useMemo, useState } from 'react';
-
-import { AuthConfigContext } from '../context/AuthConfigContext';
-import { AuthStateCtx, useAuthState } from '../context/AuthStateContext';
+import React, {
+  startTransition,
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+
+import { AuthConfigContext, useAuthConfig } from '../context/AuthConfigContext';
+import { AuthEventsCtx } from '../context/AuthEventsContext';
+import { AuthCtx, AuthStateCtx, AuthStatus } from '../context/AuthStateContext';
 
 import type { AuthConfigProps } from '../models/AuthConfig';
-import type { UserProfile } from '../models/User';
+import type { AuthEventBus, LoginSource, LogoutReason } from '../models/AuthEvents';
+import type { MfaChallenge, MfaMethod, MfaVerifyOptions } from '../models/Mfa';
+import type { OidcTokens } from '../models/Oidc';
+import type { PasskeyRequestOptionsJSON } from '../models/Passkeys';
+import type { AuthRouteName } from '../models/Routes';
+import type { TokenStorage } from '../models/TokenStorage';
+import type { ClaimMapper, UserProfile } from '../models/User';
 
 import { Navigate, Route, Routes, useLocation, useNavigate } from 'react-router-dom';
+import { RequireAuth } from '../components/RequireAuth';
+import { IdleWarningModal } from '../components/IdleWarningModal';
 import { SessionExpiredModal } from '../components/SessionExpiredModal';
+import { useIdleTimeout } from '../hooks/useIdleTimeout';
+import { useTokenRefresh } from '../hooks/useTokenRefresh';
 import { ForgotPasswordPage } from '../pages/auth/ForgotPasswordPage';
-import { GoogleCallbackPage } from '../pages/auth/GoogleCallbackPage';
+import { MagicLinkPage } from '../pages/auth/MagicLinkPage';
+import { MfaChallengePage } from '../pages/auth/MfaChallengePage';
+import { OAuthCallbackPage } from '../pages/auth/OAuthCallbackPage';
+import { OidcCallbackPage } from '../pages/auth/OidcCallbackPage';
+import { OidcSignInPage } from '../pages/auth/OidcSignInPage';
 import { ResetPasswordPage } from '../pages/auth/ResetPasswordPage';
 import { SignInPage } from '../pages/auth/SignInPage';
 import { SignUpPage } from '../pages/auth/SignUpPage';
 import { VerifyEmailPage } from '../pages/auth/VerifyEmailPage';
 import { attachAuthInterceptor, resetSessionFlag } from '../utils/attachAuthInterceptor';
-import { decodeToken } from '../utils/jwtHelpers';
+import { createAuthEventBus } from '../utils/authEvents';
+import { resolveAuthRoute } from '../utils/authRoutes';
+import { solveChallenge } from '../utils/challengeProviders';
+import { resolveEndpoint } from '../utils/endpoints';
+import { createCrossTabSync, CrossTabSync } from '../utils/crossTabSync';
+import { decodeToken, getTokenExpiry, isTokenExpired } from '../utils/jwtHelpers';
+import {
+  completeOidcLogin,
+  createOidcAuthorizeUrl,
+  createOidcLogoutUrl,
+  refreshOidcTokens,
+} from '../utils/oidc';
+import { isPublicPath } from '../utils/publicPaths';
+import { consumeRedirectIntent, isExternalRedirect } from '../utils/redirectIntent';
+import {
+  ACCESS_TOKEN_EXPIRY_KEY,
+  ACCESS_TOKEN_KEY,
+  createRememberMeTokenStorage,
+  defaultTokenStorage,
+  ID_TOKEN_KEY,
+  REFRESH_TOKEN_KEY,
+} from '../utils/tokenStorage';
+import { getPasskeyAssertion } from '../utils/webauthn';
+
+/** What the login-type endpoints answer with: tokens, or a second-factor challenge */
+interface LoginResponse {
+  accessToken?: string;
+  mfaRequired?: boolean;
+  mfaToken?: string;
+  methods?: MfaMethod[];
+}
+
+/** A pending challenge, plus how the sign-in it completes was started */
+type PendingMfa = MfaChallenge & { source: LoginSource };
 
-interface Props {
-  config: AuthConfigProps;
+/** A custom `TUser` has fields the standard claims cannot fill, so it needs a `claimMapper`. */
+type ClaimMapperFor<TUser extends UserProfile> = UserProfile extends TUser
+  ? unknown
+  : { claimMapper: ClaimMapper<TUser> };
+
+interface Props<TUser extends UserProfile> {
+  config: AuthConfigProps<TUser> & ClaimMapperFor<TUser>;
   children: React.ReactNode;
 }
 
-/* ---------- tiny in-file route guard ----------------------- */
-const RequireAuth: React.FC<{ children: React.ReactElement }> = ({ children }) => {
-  const { isAuthenticated } = useAuthState();
-  const location = useLocation();
-  return isAuthenticated ? children : <Navigate to="/login" state={{ from: location }} replace />;
+/* ---------- catch-all: guarded unless listed in publicPaths ---------- */
+const GuardedOutlet: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { publicPaths } = useAuthConfig();
+  const { pathname } = useLocation();
+  if (isPublicPath(pathname, publicPaths)) return <>{children}</>;
+  return <RequireAuth>{children}</RequireAuth>;
 };
-/* ----------------------------------------------------------- */
+/* ----------------------------------------------------------------------- */
+
+/**
+ * The user behind `accessToken`. In OIDC mode that is the ID token, validated
+ * before it was stored: OIDC access tokens are never checked here and may be opaque.
+ */
+function decodeUser<TUser extends UserProfile>(
+  accessToken: string,
+  storage: TokenStorage,
+  oidc: boolean,
+  claimMapper: ClaimMapper<TUser> | undefined,
+): TUser {
+  const idToken = oidc ? storage.get(ID_TOKEN_KEY) : null;
+  // without a mapper TUser is the default profile (see ClaimMapperFor)
+  return decodeToken(idToken ?? accessToken, claimMapper) as TUser;
+}
 
-export const AuthProvider: React.FC<Props> = ({ config, children }) => {
+/** Expiry stored from the OIDC token response; the only one opaque access tokens have. */
+function storedAccessTokenExpiry(storage: TokenStorage, oidc: boolean): number | null {
+  const at = oidc ? Number(storage.get(ACCESS_TOKEN_EXPIRY_KEY)) : 0;
+  return at > 0 ? at : null;
+}
+
+/**
+ * Reads the stored access token and decodes it. Expired or undecodable
+ * tokens are wiped so the bootstrap falls back to the refresh cookie.
+ */
+function restoreSession<TUser extends UserProfile>(
+  storage: TokenStorage,
+  oidc: boolean,
+  claimMapper: ClaimMapper<TUser> | undefined,
+  clockSkewSeconds: number,
+): { token: string; user: TUser } | null {
+  const token = storage.get(ACCESS_TOKEN_KEY);
+  if (!token) return null;
+  const storedExpiry = storedAccessTokenExpiry(storage, oidc);
+  try {
+    const expired =
+      isTokenExpired(token, clockSkewSeconds) ||
+      (storedExpiry !== null && storedExpiry + clockSkewSeconds * 1000 <= Date.now());
+    if (!expired) {
+      return { token, user: decodeUser(token, storage, oidc, claimMapper) };
+    }
+  } catch {
+    /* malformed token (or a claimMapper that rejects it) */
+  }
+  storage.remove(ACCESS_TOKEN_KEY);
+  storage.remove(ACCESS_TOKEN_EXPIRY_KEY);
+  return null;
+}
+
+export const AuthProvider = <TUser extends UserProfile = UserProfile>({
+  config,
+  children,
+}: Props<TUser>) => {
   const navigate = useNavigate();
+  const tokenStorage = useMemo(
+    () =>
+      config.tokenStorage ??
+      (config.rememberMe ? createRememberMeTokenStorage() : defaultTokenStorage),
+    [config.tokenStorage, config.rememberMe],
+  );
 
   /* ── state ─────────────────────────────────────────────── */
-  const [accessToken, setAccessToken] = useState<string | null>(() =>
-    localStorage.getItem('authToken'),
+  const [restored] = useState(() =>
+    restoreSession(tokenStorage, !!config.oidc, config.claimMapper, config.clockSkewSeconds ?? 30),
   );
-  const [user, setUser] = useState<UserProfile | null>(null);
+  const [accessToken, setAccessToken] = useState<string | null>(restored?.token ?? null);
+  const [user, setUser] = useState<TUser | null>(restored?.user ?? null);
   const [expired, setExpired] = useState(false);
+  const [booting, setBooting] = useState(() => !accessToken);
+  const [refreshing, setRefreshing] = useState(false);
+  const [mfaChallenge, setMfaChallenge] = useState<PendingMfa | null>(null);
+  const syncRef = useRef<CrossTabSync | null>(null);
+  const [events] = useState(() => createAuthEventBus<TUser>());
+
+  function expiryOf(token: string) {
+    return getTokenExpiry(token) ?? storedAccessTokenExpiry(tokenStorage, !!config.oidc);
+  }
+
+  function applyToken(token: string) {
+    const decoded = decodeUser(token, tokenStorage, !!config.oidc, config.claimMapper);
+    setAccessToken(token);
+    setUser(decoded);
+    tokenStorage.set(ACCESS_TOKEN_KEY, token);
+    return decoded;
+  }
+
+  /* ── lifecycle events → config callbacks ───────────────── */
+  const configRef = useRef(config);
+  useEffect(() => {
+    configRef.current = config;
+  });
+
+  // layout effect: subscribed before child effects run, since callback pages
+  // may sign in (and emit) as soon as they mount
+  useLayoutEffect(() => {
+    const offs = [
+      events.on('login', (e) => configRef.current.onLogin?.(e)),
+      events.on('logout', (e) => configRef.current.onLogout?.(e)),
+      events.on('tokenRefreshed', (e) => configRef.current.onTokenRefreshed?.(e)),
+      events.on('refreshFailed', (e) => configRef.current.onRefreshFailed?.(e)),
+      events.on('sessionExpired', (e) => configRef.current.onSessionExpired?.(e)),
+      events.on('userChanged', (e) => configRef.current.onUserChanged?.(e)),
+    ];
+    return () => offs.forEach((off) => off());
+  }, [events]);
+
+  const prevUserRef = useRef(user);
+  useEffect(() => {
+    if (prevUserRef.current === user) return;
+    prevUserRef.current = user;
+    events.emit('userChanged', { user });
+  }, [user, events]);
+
+  /* ── refresh (one elected tab calls the endpoint, the rest adopt its result) ── */
+  async function requestRefresh(): Promise<string> {
+    if (config.oidc) {
+      const refreshToken = tokenStorage.get(REFRESH_TOKEN_KEY);
+      if (!refreshToken) throw new Error('No OIDC refresh token');
+      const tokens = await refreshOidcTokens(
+        config.oidc,
+        refreshToken,
+        config.clockSkewSeconds ?? 30,
+      );
+      storeOidcTokens(tokens);
+      return tokens.accessToken;
+    }
 
-  /* ── Google OAuth callback component (inside AuthProvider so it can touch state) ── */
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  const GoogleOAuthCallback: React.FC = () => {
-    const location = useLocation();
+    const ep = resolveEndpoint(config, 'refresh');
+    const { data } = await axios.post(`${config.baseUrl}${ep.path}`, ep.transformRequest({}), {
+      withCredentials: true,
+    });
+    return (ep.transformResponse(data) as { accessToken: string }).accessToken;
+  }
 
-    useEffect(() => {
-      const params = new URLSearchParams(location.search);
-      const tokenFromQuery = params.get('accessToken');
+  async function refreshShared(): Promise<string> {
+    const sync = syncRef.current;
+    setRefreshing(true);
+    try {
+      return await (sync ? sync.refreshAsLeader(requestRefresh) : requestRefresh());
+    } finally {
+      setRefreshing(false);
+    }
+  }
 
-      if (tokenFromQuery) {
-        try {
-          setAccessToken(tokenFromQuery);
-          setUser(decodeToken(tokenFromQuery));
-          localStorage.setItem('authToken', tokenFromQuery);
+  /* ── cross-tab session sync ────────────────────────────── */
+  useEffect(() => {
+    const sync = createCrossTabSync();
+    syncRef.current = sync;
+
+    const off = sync.subscribe((msg) => {
+      switch (msg.type) {
+        case 'login':
+          events.emit('login', { user: applyToken(msg.token), source: 'remote' });
           resetSessionFlag();
-        } catch (e) {
-          console.error('Failed to decode or store Google access token:', e);
-        }
-      } else {
-        console.error('No accessToken found in Google OAuth callback URL.');
+          setExpired(false);
+          break;
+        case 'token':
+          applyToken(msg.token);
+          events.emit('tokenRefreshed', {
+            accessToken: msg.token,
+            expiresAt: expiryOf(msg.token),
+          });
+          break;
+        case 'logout':
+          setAccessToken(null);
+          setUser(null);
+          tokenStorage.remove(ACCESS_TOKEN_KEY);
+          setExpired(false);
+          events.emit('logout', { reason: 'remote' });
+          navigate(resolveAuthRoute(config, 'login').path, { replace: true });
+          break;
+        case 'user':
+          setUser(msg.user as TUser | null);
+          break;
       }
+    });
 
-      const redirectPath = sessionStorage.getItem('postLoginRedirect') || '/';
-      sessionStorage.removeItem('postLoginRedirect');
-
-      navigate(redirectPath, { replace: true });
-    }, [location.search]);
+    return () => {
+      off();
+      sync.close();
+      syncRef.current = null;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
 
-    // No UI needed; this route just processes the tokens then redirects.
-    return null;
-  };
+  const setUserShared = useCallback((u: TUser | null) => {
+    setUser(u);
+    syncRef.current?.post({ type: 'user', user: u });
+  }, []);
 
   /* ── hard logout ───────────────────────────────────────── */
-  async function hardLogout() {
+  async function hardLogout(reason: LogoutReason) {
+    if (config.oidc) return oidcLogout(reason);
     try {
       // Ask backend to clear the HttpOnly refreshToken cookie
-      await api.post('/api/auth/logout');
+      const ep = resolveEndpoint(config, 'logout');
+      await api.post(ep.path, ep.transformRequest({}));
     } catch (e) {
       // Even if backend call fails, still clear local session
       console.warn('Logout endpoint failed, proceeding with local logout:', e);
@@ -86,15 +298,62 @@ export const AuthProvider: React.FC<Props> = ({ config, children }) => {
     setAccessToken(null);
     setUser(null);
 
-    localStorage.removeItem('authToken');
+    tokenStorage.remove(ACCESS_TOKEN_KEY);
     sessionStorage.clear();
+    syncRef.current?.post({ type: 'logout' });
+    events.emit('logout', { reason });
+
+    setExpired(false);
+    navigate(resolveAuthRoute(config, 'login').path, { replace: true });
+  }
 
+  /* ── OIDC mode: tokens come from the IdP, not the kit's endpoints ── */
+  function storeOidcTokens({ refreshToken, idToken, expiresAt }: OidcTokens) {
+    // refresh tokens rotate; keep the one from the latest grant
+    if (refreshToken) tokenStorage.set(REFRESH_TOKEN_KEY, refreshToken);
+    if (idToken) tokenStorage.set(ID_TOKEN_KEY, idToken);
+    if (expiresAt) tokenStorage.set(ACCESS_TOKEN_EXPIRY_KEY, String(expiresAt));
+    else tokenStorage.remove(ACCESS_TOKEN_EXPIRY_KEY);
+  }
+
+  async function loginWithOidc() {
+    if (!config.oidc) throw new Error('OIDC is not configured');
+    const redirectUri = `${window.location.origin}${resolveAuthRoute(config, 'oidcCallback').path}`;
+    window.location.assign(await createOidcAuthorizeUrl(config.oidc, redirectUri));
+  }
+
+  async function handleOidcCallback(search: string) {
+    if (!config.oidc) throw new Error('OIDC is not configured');
+    const tokens = await completeOidcLogin(config.oidc, search, config.clockSkewSeconds ?? 30);
+    storeOidcTokens(tokens);
+    completeLogin(tokens.accessToken, 'oidc');
+  }
+
+  /** Local sign-out, then RP-initiated logout at the IdP when it supports it. */
+  async function oidcLogout(reason: LogoutReason) {
+    const idToken = tokenStorage.get(ID_TOKEN_KEY);
+    setAccessToken(null);
+    setUser(null);
+    tokenStorage.remove(ACCESS_TOKEN_KEY);
+    tokenStorage.remove(REFRESH_TOKEN_KEY);
+    tokenStorage.remove(ID_TOKEN_KEY);
+    tokenStorage.remove(ACCESS_TOKEN_EXPIRY_KEY);
+    sessionStorage.clear();
+    syncRef.current?.post({ type: 'logout' });
+    events.emit('logout', { reason });
     setExpired(false);
-    navigate('/login', { replace: true });
+
+    let logoutUrl: string | null = null;
+    try {
+      logoutUrl = await createOidcLogoutUrl(config.oidc!, idToken);
+    } catch (e) {
+      console.warn('OIDC discovery failed, proceeding with local logout:', e);
+    }
+    if (logoutUrl) window.location.assign(logoutUrl);
+    else navigate(resolveAuthRoute(config, 'login').path, { replace: true });
   }
 
   /* ── axios + interceptor ───────────────────────────────── */
-  // eslint-disable-next-line react-hooks/preserve-manual-memoization
   const api = useMemo(() => {
     const client = axios.create({
       baseURL: config.baseUrl,
@@ -104,112 +363,257 @@ export const AuthProvider: React.FC<Props> = ({ config, children }) => {
     attachAuthInterceptor(client, {
       baseUrl: config.baseUrl,
       getAccessToken: () => accessToken,
-      setAccessToken: (t) => setAccessToken(t),
+      refresh: () => refreshShared(),
+      setAccessToken: (t) => {
+        setAccessToken(t);
+        if (t) tokenStorage.set(ACCESS_TOKEN_KEY, t);
+        else tokenStorage.remove(ACCESS_TOKEN_KEY);
+      },
       logout: () => setExpired(true),
+      events,
     });
 
     return client;
-  }, [config.baseUrl, accessToken]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [config.baseUrl, accessToken, tokenStorage, events]);
 
-  /* ── bootstrap (localStorage → refresh) ────────────────── */
+  /* ── bootstrap (valid stored token → refresh) ──────────── */
   useEffect(() => {
+    // StrictMode tears the first run down while its refresh is still in flight
+    let cancelled = false;
     const init = async () => {
-      if (accessToken) {
-        setUser(decodeToken(accessToken));
+      if (restored) {
+        events.emit('login', { user: restored.user, source: 'bootstrap' });
         return;
       }
 
       try {
-        const { data } = await axios.post(
-          `${config.baseUrl}/api/auth/refresh-token`,
-          {},
-          { withCredentials: true },
-        );
-        setAccessToken(data.accessToken);
-        setUser(decodeToken(data.accessToken));
-        localStorage.setItem('authToken', data.accessToken);
+        const token = await refreshShared();
+        if (!cancelled) events.emit('login', { user: applyToken(token), source: 'bootstrap' });
       } catch {
         /* no valid refresh cookie – remain logged-out */
+      } finally {
+        if (!cancelled) setBooting(false);
       }
     };
     init();
+    return () => {
+      cancelled = true;
+    };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [config.baseUrl]);
 
+  /* ── proactive silent refresh (driven by the JWT `exp` or OIDC `expires_in`) ─ */
+  const expiresAt = accessToken ? expiryOf(accessToken) : null;
+
+  useTokenRefresh({
+    expiresAt,
+    leewaySeconds: config.refreshBeforeExpirySeconds ?? 60,
+    refresh: async () => {
+      try {
+        const token = await refreshShared();
+        applyToken(token);
+        events.emit('tokenRefreshed', { accessToken: token, expiresAt: expiryOf(token) });
+      } catch (error) {
+        events.emit('refreshFailed', { error });
+        throw error;
+      }
+    },
+  });
+
+  /* ── inactivity timeout ────────────────────────────────── */
+  const idle = useIdleTimeout({
+    enabled: !!accessToken && !!config.idleTimeout,
+    timeoutMs: (config.idleTimeout?.minutes ?? 0) * 60_000,
+    warningMs: (config.idleTimeout?.warningSeconds ?? 60) * 1000,
+    onTimeout: () => hardLogout('idle'),
+  });
+
   /* ── manual login (email/password client login) ────────── */
-  async function login(credentials: { email: string; password: string }) {
-    const { data } = await api.post('/api/auth/login', credentials);
-    setAccessToken(data.accessToken);
-    setUser(decodeToken(data.accessToken));
-    localStorage.setItem('authToken', data.accessToken);
+  function completeLogin(token: string, source: LoginSource = 'password') {
+    // back to the page RequireAuth bounced from (path, search and hash).
+    // Router updates run as transitions, so commit the token in the same one;
+    // otherwise /login renders first and redirects to the default.
+    const target = consumeRedirectIntent(config.defaultRedirect, config.allowedRedirectOrigins);
+    let loggedIn!: TUser;
+    startTransition(() => {
+      loggedIn = applyToken(token);
+      setMfaChallenge(null);
+      if (isExternalRedirect(target)) window.location.replace(target);
+      else navigate(target, { replace: true });
+    });
     resetSessionFlag();
+    events.emit('login', { user: loggedIn, source });
+    syncRef.current?.post({ type: 'login', token });
+  }
 
-    // NOTE: this previously tried to use `location.state.from`
-    // but `location` here is the global, not React Router's.
-    // For simplicity we send the user to "/" after manual login.
-    navigate('/', { replace: true });
+  function handleLoginResponse(data: LoginResponse, source: LoginSource) {
+    // second factor due: park the ticket and continue on the challenge page
+    if (data.mfaRequired && data.mfaToken) {
+      setMfaChallenge({ mfaToken: data.mfaToken, methods: data.methods ?? ['totp'], source });
+      navigate(resolveAuthRoute(config, 'mfa').path);
+      return;
+    }
+    if (!data.accessToken) throw new Error('The sign-in response did not include an access token');
+    completeLogin(data.accessToken, source);
+  }
+
+  async function login(credentials: { email: string; password: string; rememberMe?: boolean }) {
+    const ep = resolveEndpoint(config, 'login');
+    const challenge = await solveChallenge(config.challengeProvider, 'login');
+    // before any token is written, so MFA completion lands in the same place
+    if (credentials.rememberMe !== undefined) tokenStorage.setPersistent?.(credentials.rememberMe);
+    const { data: raw } = await api.post(
+      ep.path,
+      ep.transformRequest({ ...credentials, ...challenge.fields }),
+      challenge.config,
+    );
+    handleLoginResponse(ep.transformResponse(raw) as LoginResponse, 'password');
   }
 
-  const ctx = useMemo(
+  async function loginWithPasswordless(proof: { email: string; code: string } | { token: string }) {
+    const ep = resolveEndpoint(config, 'passwordlessVerify');
+    const { data: raw } = await api.post(ep.path, ep.transformRequest({ ...proof }));
+    handleLoginResponse(ep.transformResponse(raw) as LoginResponse, 'passwordless');
+  }
+
+  async function loginWithOAuth(result: { accessToken: string } | { code: string }) {
+    if ('accessToken' in result) return completeLogin(result.accessToken, 'oauth');
+    const ep = resolveEndpoint(config, 'oauthExchange');
+    const { data: raw } = await api.post(ep.path, ep.transformRequest({ code: result.code }));
+    handleLoginResponse(ep.transformResponse(raw) as LoginResponse, 'oauth');
+  }
+
+  async function loginWithPasskey({
+    conditional = false,
+    signal,
+  }: { conditional?: boolean; signal?: AbortSignal } = {}) {
+    const optionsEp = resolveEndpoint(config, 'passkeyLoginOptions');
+    const { data: options } = await api.post(optionsEp.path, optionsEp.transformRequest({}));
+    const assertion = await getPasskeyAssertion(
+      optionsEp.transformResponse(options) as PasskeyRequestOptionsJSON,
+      {
+        mediation: conditional ? 'conditional' : undefined,
+        signal,
+      },
+    );
+
+    const ep = resolveEndpoint(config, 'passkeyLogin');
+    const { data: raw } = await api.post(ep.path, ep.transformRequest({ ...assertion }));
+    handleLoginResponse(ep.transformResponse(raw) as LoginResponse, 'passkey');
+  }
+
+  async function verifyMfa(code: string, options: MfaVerifyOptions = {}) {
+    if (!mfaChallenge) throw new Error('No multi-factor challenge in progress');
+    const ep = resolveEndpoint(config, 'mfaVerify');
+    const { data: raw } = await api.post(
+      ep.path,
+      ep.transformRequest({
+        mfaToken: mfaChallenge.mfaToken,
+        code,
+        method: options.method ?? 'totp',
+        trustDevice: !!options.trustDevice,
+      }),
+    );
+    // finishes the sign-in the challenge interrupted, under its original source
+    handleLoginResponse(ep.transformResponse(raw) as LoginResponse, mfaChallenge.source);
+  }
+
+  /* ── status ────────────────────────────────────────────── */
+  let status: AuthStatus;
+  if (expired) status = 'expired';
+  else if (booting) status = 'bootstrapping';
+  else if (!accessToken) status = 'unauthenticated';
+  else if (refreshing) status = 'refreshing';
+  else status = 'authenticated';
+
+  const ctx = useMemo<AuthCtx<TUser>>(
     () => ({
+      status,
       isAuthenticated: !!accessToken,
       accessToken,
+      expiresAt,
       user,
       login,
-      logout: hardLogout,
+      loginWithPasskey,
+      loginWithPasswordless,
+      loginWithOAuth,
+      loginWithOidc,
+      handleOidcCallback,
+      mfaChallenge,
+      verifyMfa,
+      logout: () => hardLogout('user'),
       api,
-      setUser,
+      setUser: setUserShared,
     }),
     // eslint-disable-next-line react-hooks/exhaustive-deps
-    [accessToken, user, api],
+    [status, accessToken, expiresAt, user, api, mfaChallenge],
   );
 
-  // Optional boot screen
-  // if (booting) {
-  //   return <div className="fixed inset-0 bg-white" />;
-  // }
+  /* ── built-in pages (see `routes` / `basePath` / `headless`) ── */
+  const builtInPages: { name: AuthRouteName; page: React.ReactElement; guestOnly?: boolean }[] = [
+    {
+      name: 'login',
+      page: config.oidc ? (
+        <OidcSignInPage />
+      ) : (
+        <SignInPage baseUrl={config.baseUrl} colors={config.colors} />
+      ),
+      guestOnly: true,
+    },
+    { name: 'signup', page: <SignUpPage />, guestOnly: true },
+    { name: 'verifyEmail', page: <VerifyEmailPage /> },
+    { name: 'forgotPassword', page: <ForgotPasswordPage /> },
+    { name: 'resetPassword', page: <ResetPasswordPage /> },
+    { name: 'mfa', page: <MfaChallengePage />, guestOnly: true },
+    { name: 'magicLink', page: <MagicLinkPage />, guestOnly: true },
+    { name: 'oauthCallback', page: <OAuthCallbackPage /> },
+    { name: 'googleCallback', page: <OAuthCallbackPage /> },
+    { name: 'microsoftCallback', page: <OAuthCallbackPage /> },
+    ...(config.oidc ? [{ name: 'oidcCallback' as const, page: <OidcCallbackPage /> }] : []),
+  ];
 
   return (
-    <AuthConfigContext.Provider value={config}>
-      <AuthStateCtx.Provider value={ctx}>
-        <Routes>
-          {/* public login route */}
-          <Route
-            path="login"
-            element={
-              accessToken ? (
-                <Navigate to="/" replace />
-              ) : (
-                <SignInPage baseUrl={config.baseUrl} colors={config.colors} />
-              )
-            }
-          />
-
-          {/* public signup route */}
-          <Route
-            path="signup"
-            element={accessToken ? <Navigate to="/" replace /> : <SignUpPage />}
-          />
-
-          {/* public verify-email route */}
-          <Route path="verify-email" element={<VerifyEmailPage />} />
-
-          {/* public forgot/reset password routes */}
-          <Route path="forgot-password" element={<ForgotPasswordPage />} />
-          <Route path="reset-password" element={<ResetPasswordPage />} />
-
-          {/* Google OAuth callback route */}
-          <Route path="oauth/google/callback" element={<GoogleCallbackPage />} />
-
-          {/* Microsoft OAuth callback route */}
-          <Route path="/oauth/microsoft/callback" element={<GoogleCallbackPage />} />
-
-          {/* everything else protected */}
-          <Route path="*" element={<RequireAuth>{children as React.ReactElement}</RequireAuth>} />
-        </Routes>
-
-        {expired && <SessionExpiredModal onConfirm={hardLogout} />}
-      </AuthStateCtx.Provider>
+    <AuthConfigContext.Provider value={config as unknown as AuthConfigProps}>
+      <AuthEventsCtx.Provider value={events as unknown as AuthEventBus}>
+        <AuthStateCtx.Provider value={ctx as unknown as AuthCtx}>
+          {config.headless ? (
+            children
+          ) : (
+            <Routes>
+              {builtInPages.map(({ name, page, guestOnly }) => {
+                const { path, element = page } = resolveAuthRoute(config, name);
+                if (element === null) return null;
+                return (
+                  <Route
+                    key={name}
+                    path={path}
+                    element={
+                      guestOnly && accessToken ? (
+                        <Navigate to={config.defaultRedirect ?? '/'} replace />
+                      ) : (
+                        element
+                      )
+                    }
+                  />
+                );
+              })}
+
+              {/* everything else protected, except publicPaths */}
+              <Route path="*" element={<GuardedOutlet>{children}</GuardedOutlet>} />
+            </Routes>
+          )}
+
+          {expired && <SessionExpiredModal onConfirm={() => hardLogout('expired')} />}
+          {!expired && idle.secondsLeft !== null && (
+            <IdleWarningModal
+              secondsLeft={idle.secondsLeft}
+              onStay={idle.stayActive}
+              onLogout={() => hardLogout('user')}
+            />
+          )}
+        </AuthStateCtx.Provider>
+      </AuthEventsCtx.Provider>
     </AuthConfigContext.Provider>
   );
 };
@@ -4,14 +4,19 @@ import axios, {
   AxiosRequestConfig,
   InternalAxiosRequestConfig,
 } from 'axios';
+import type { AuthEventBus } from '../models/AuthEvents';
+import { DEFAULT_ENDPOINTS } from './endpoints';
 import { extractHttpErrorMessage } from './errorHelpers';
+import { getTokenExpiry } from './jwtHelpers';
 
 interface Options {
   baseUrl: string; // e.g. https://api.myapp.com
-  refreshEndpoint?: string; // default → "/auth/refresh"
+  refreshEndpoint?: string; // default → "/api/auth/refresh-token"
+  refresh?(): Promise<string>; // overrides the built-in POST (e.g. cross-tab leader refresh)
   getAccessToken(): string | null;
   setAccessToken(token: string | null): void;
   logout(): void; // implemented in AuthProvider
+  events?: AuthEventBus; // receives tokenRefreshed / refreshFailed / sessionExpired
 }
 
 let sessionExpiredFlag = false; // guards multiple modals
@@ -22,7 +27,7 @@ export function resetSessionFlag() {
 
 export function attachAuthInterceptor(api: AxiosInstance, opts: Options) {
   api.defaults.withCredentials = true;
-  const refreshUrl = `${opts.baseUrl}${opts.refreshEndpoint ?? '/auth/refresh-token'}`;
+  const refreshUrl = `${opts.baseUrl}${opts.refreshEndpoint ?? DEFAULT_ENDPOINTS.refresh}`;
 
   /* ── request ─────────────────────────────────────────────── */
   api.interceptors.request.use((cfg: InternalAxiosRequestConfig) => {
@@ -52,17 +57,25 @@ export function attachAuthInterceptor(api: AxiosInstance, opts: Options) {
       if (!refreshing) {
         refreshing = true;
         try {
-          const { data } = await axios.post(refreshUrl, {}, { withCredentials: true });
-          opts.setAccessToken(data.accessToken);
-          queue.forEach((cb) => cb(data.accessToken));
+          const token = opts.refresh
+            ? await opts.refresh()
+            : (await axios.post(refreshUrl, {}, { withCredentials: true })).data.accessToken;
+          opts.setAccessToken(token);
+          opts.events?.emit('tokenRefreshed', {
+            accessToken: token,
+            expiresAt: getTokenExpiry(token),
+          });
+          queue.forEach((cb) => cb(token));
           queue = [];
           return api.request(original);
         } catch (refreshErr) {
           const hadToken = !!opts.getAccessToken();
+          opts.events?.emit('refreshFailed', { error: refreshErr });
 
           if (hadToken && !sessionExpiredFlag) {
             sessionExpiredFlag = true;
             opts.logout(); // 🔔 open modal, keep token for now
+            opts.events?.emit('sessionExpired', {});
           }
 
           // Surface detailed error message for UI to display on login page
@@ -0,0 +1,33 @@
+// src/utils/authEvents.ts
+import type {
+  AuthEventBus,
+  AuthEventHandler,
+  AuthEventMap,
+  AuthEventType,
+} from '../models/AuthEvents';
+import type { UserProfile } from '../models/User';
+
+export function createAuthEventBus<TUser extends UserProfile = UserProfile>(): AuthEventBus<TUser> {
+  const handlers = new Map<AuthEventType, Set<AuthEventHandler<never, TUser>>>();
+
+  return {
+    emit(type, payload) {
+      handlers.get(type)?.forEach((fn) => {
+        try {
+          (fn as AuthEventHandler<typeof type, TUser>)(payload as AuthEventMap<TUser>[typeof type]);
+        } catch (e) {
+          // a throwing listener must not break the auth flow
+          console.error(`Auth event listener for "${type}" failed:`, e);
+        }
+      });
+    },
+    on(type, handler) {
+      let set = handlers.get(type);
+      if (!set) handlers.set(type, (set = new Set()));
+      set.add(handler as AuthEventHandler<never, TUser>);
+      return () => {
+        set.delete(handler as AuthEventHandler<never, TUser>);
+      };
+    },
+  };
+}
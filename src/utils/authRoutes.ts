@@ -0,0 +1,45 @@
+// src/utils/authRoutes.ts
+import type { AuthConfigProps } from '../models/AuthConfig';
+import type { AuthRouteConfig, AuthRouteName } from '../models/Routes';
+
+export const DEFAULT_ROUTES: Record<AuthRouteName, string> = {
+  login: '/login',
+  signup: '/signup',
+  verifyEmail: '/verify-email',
+  forgotPassword: '/forgot-password',
+  resetPassword: '/reset-password',
+  mfa: '/mfa',
+  magicLink: '/magic-link',
+  oidcCallback: '/oidc/callback',
+  oauthCallback: '/oauth/:provider/callback',
+  googleCallback: '/oauth/google/callback',
+  microsoftCallback: '/oauth/microsoft/callback',
+};
+
+export type ResolvedRoute = { path: string; element?: AuthRouteConfig['element'] };
+
+function joinPath(base: string, path: string) {
+  const joined = `${base.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+  return joined.startsWith('/') ? joined : `/${joined}`;
+}
+
+/**
+ * Absolute path of a built-in page (with `basePath` applied) and its
+ * replacement element, if any. `element: null` means "don't mount".
+ */
+export function resolveAuthRoute(
+  config: Pick<AuthConfigProps, 'routes' | 'basePath'> | null,
+  name: AuthRouteName,
+): ResolvedRoute {
+  const entry = config?.routes?.[name];
+  const route: AuthRouteConfig =
+    entry === false
+      ? { element: null }
+      : typeof entry === 'string'
+        ? { path: entry }
+        : (entry ?? {});
+  return {
+    path: joinPath(config?.basePath ?? '/', route.path ?? DEFAULT_ROUTES[name]),
+    element: route.element,
+  };
+}
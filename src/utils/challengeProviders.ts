@@ -0,0 +1,225 @@
+// src/utils/challengeProviders.ts
+import { createElement } from 'react';
+import type { AxiosRequestConfig } from 'axios';
+import type {
+  ChallengeAction,
+  ChallengeProvider,
+  ChallengeTarget,
+  InteractiveChallengeOptions,
+  SiteKeyChallengeOptions,
+} from '../models/Challenge';
+
+export const DEFAULT_CHALLENGE_FIELD = 'captchaToken';
+
+const CHALLENGE_FAILED = 'We could not verify that you are human. Please try again.';
+
+/* minimal surface of the vendor globals used below */
+interface CaptchaWindow {
+  grecaptcha?: {
+    ready(cb: () => void): void;
+    execute(siteKey: string, options: { action: string }): Promise<string>;
+  };
+  hcaptcha?: {
+    render(container: HTMLElement, params: Record<string, unknown>): string;
+    execute(widgetId: string, options: { async: true }): Promise<{ response: string }>;
+    reset(widgetId: string): void;
+  };
+  turnstile?: {
+    render(container: HTMLElement, params: Record<string, unknown>): string;
+    remove(widgetId: string): void;
+  };
+}
+
+const scripts = new Map<string, Promise<void>>();
+
+/** Inject a vendor script once; a failed load is retried on the next call. */
+function loadScript(src: string): Promise<void> {
+  let loading = scripts.get(src);
+  if (!loading) {
+    loading = new Promise<void>((resolve, reject) => {
+      const el = document.createElement('script');
+      el.src = src;
+      el.async = true;
+      el.onload = () => resolve();
+      el.onerror = () => {
+        scripts.delete(src);
+        el.remove();
+        reject(new Error(CHALLENGE_FAILED));
+      };
+      document.head.appendChild(el);
+    });
+    scripts.set(src, loading);
+  }
+  return loading;
+}
+
+function captchaGlobal<K extends keyof CaptchaWindow>(name: K): NonNullable<CaptchaWindow[K]> {
+  const api = (window as CaptchaWindow)[name];
+  if (!api) throw new Error(CHALLENGE_FAILED);
+  return api;
+}
+
+/** Widget host for the invisible / interaction-only challenges */
+function createContainer(): HTMLElement {
+  const el = document.createElement('div');
+  el.style.cssText =
+    'position:fixed;bottom:16px;left:50%;transform:translateX(-50%);z-index:2147483647';
+  document.body.appendChild(el);
+  return el;
+}
+
+/** Google reCAPTCHA v3: score-based, no user interaction. */
+export function createRecaptchaV3Challenge({
+  siteKey,
+  ...target
+}: SiteKeyChallengeOptions): ChallengeProvider {
+  return {
+    ...target,
+    async getToken(action) {
+      await loadScript(
+        `https://www.google.com/recaptcha/api.js?render=${encodeURIComponent(siteKey)}`,
+      );
+      const grecaptcha = captchaGlobal('grecaptcha');
+      await new Promise<void>((resolve) => grecaptcha.ready(resolve));
+      return grecaptcha.execute(siteKey, { action });
+    },
+  };
+}
+
+/** hCaptcha in invisible mode: a challenge only pops up when hCaptcha wants one. */
+export function createHcaptchaChallenge({
+  siteKey,
+  timeoutSeconds = 120,
+  ...target
+}: InteractiveChallengeOptions): ChallengeProvider {
+  let widgetId: string | null = null;
+  return {
+    ...target,
+    async getToken() {
+      await loadScript('https://js.hcaptcha.com/1/api.js?render=explicit');
+      const hcaptcha = captchaGlobal('hcaptcha');
+      widgetId ??= hcaptcha.render(createContainer(), { sitekey: siteKey, size: 'invisible' });
+      // a dismissed challenge or blocked script never answers: don't leave the form pending
+      let timer: number | undefined;
+      const deadline = new Promise<never>((_, reject) => {
+        timer = window.setTimeout(() => reject(new Error(CHALLENGE_FAILED)), timeoutSeconds * 1000);
+      });
+      try {
+        const { response } = await Promise.race([
+          hcaptcha.execute(widgetId, { async: true }),
+          deadline,
+        ]);
+        return response;
+      } catch {
+        throw new Error(CHALLENGE_FAILED);
+      } finally {
+        window.clearTimeout(timer);
+        // tokens are single use; this also closes a challenge left open
+        hcaptcha.reset(widgetId);
+      }
+    },
+  };
+}
+
+/** Cloudflare Turnstile, shown only when it needs the user to interact. */
+export function createTurnstileChallenge({
+  siteKey,
+  timeoutSeconds = 120,
+  ...target
+}: InteractiveChallengeOptions): ChallengeProvider {
+  return {
+    ...target,
+    async getToken(action) {
+      await loadScript('https://challenges.cloudflare.com/turnstile/v0/api.js?render=explicit');
+      const turnstile = captchaGlobal('turnstile');
+      const container = createContainer();
+      return new Promise<string>((resolve, reject) => {
+        let widgetId: string | null = null;
+        let settled = false;
+        const cleanup = () => {
+          if (widgetId !== null) turnstile.remove(widgetId);
+          container.remove();
+        };
+        // every outcome settles once and takes the widget down, so the form never hangs
+        const settle = (token: string | null) => {
+          if (settled) return;
+          settled = true;
+          window.clearTimeout(timer);
+          if (widgetId !== null) cleanup();
+          if (token === null) reject(new Error(CHALLENGE_FAILED));
+          else resolve(token);
+        };
+        const fail = () => settle(null);
+        const timer = window.setTimeout(fail, timeoutSeconds * 1000);
+
+        widgetId = turnstile.render(container, {
+          sitekey: siteKey,
+          action,
+          appearance: 'interaction-only',
+          callback: (token: string) => settle(token),
+          'error-callback': fail,
+          'timeout-callback': fail,
+          'expired-callback': fail,
+        });
+        // settled while rendering: the widget id was not known yet
+        if (settled) cleanup();
+      });
+    },
+  };
+}
+
+/**
+ * A visually hidden input humans leave empty. Its value is sent as the token
+ * (in `field`, default "website"); the backend rejects non-empty ones.
+ */
+export function createHoneypotChallenge({
+  field = 'website',
+  header,
+}: ChallengeTarget = {}): ChallengeProvider {
+  // read the mounted inputs when asked: one provider serves every form and remount
+  const inputs = new Set<HTMLInputElement>();
+  return {
+    field,
+    header,
+    getToken: async () => [...inputs].find((input) => input.value)?.value ?? '',
+    Field: () =>
+      createElement('input', {
+        type: 'text',
+        name: field,
+        tabIndex: -1,
+        autoComplete: 'off',
+        'aria-hidden': true,
+        defaultValue: '',
+        ref: (input: HTMLInputElement | null) => {
+          if (!input) return;
+          inputs.add(input);
+          return () => {
+            inputs.delete(input);
+          };
+        },
+        style: { position: 'absolute', left: '-10000px', width: 1, height: 1, opacity: 0 },
+      }),
+  };
+}
+
+/** Always passes with a fixed token; for tests and local development. */
+export function createNoopChallenge(
+  token = 'test-token',
+  target: ChallengeTarget = {},
+): ChallengeProvider {
+  return { ...target, getToken: async () => token };
+}
+
+/**
+ * Run `provider` for `action` and return what to add to the request: body
+ * fields, or an axios config carrying the token header. Empty without a provider.
+ */
+export async function solveChallenge(
+  provider: ChallengeProvider | undefined,
+  action: ChallengeAction,
+): Promise<{ fields: Record<string, string>; config?: AxiosRequestConfig }> {
+  if (!provider) return { fields: {} };
+  const token = await provider.getToken(action);
+  if (provider.header) return { fields: {}, config: { headers: { [provider.header]: token } } };
+  return { fields: { [provider.field ?? DEFAULT_CHALLENGE_FIELD]: token } };
+}
@@ -0,0 +1,187 @@
+// src/utils/crossTabSync.ts
+import type { UserProfile } from '../models/User';
+
+export type AuthSyncMessage =
+  | { type: 'login'; token: string }
+  | { type: 'logout' }
+  | { type: 'token'; token: string }
+  | { type: 'refresh-failed'; status?: number }
+  | { type: 'user'; user: UserProfile | null }
+  | { type: 'activity'; at: number };
+
+export interface CrossTabSync {
+  /** Send to every other tab of the same origin (never echoed back to this one). */
+  post(msg: AuthSyncMessage): void;
+  subscribe(fn: (msg: AuthSyncMessage) => void): () => void;
+  /**
+   * Run `refresh` in at most one tab at a time. Tabs that lose the election
+   * wait for the leader to broadcast the new token instead of calling the
+   * refresh endpoint themselves.
+   */
+  refreshAsLeader(refresh: () => Promise<string>): Promise<string>;
+  close(): void;
+}
+
+const LEASE_MS = 10_000;
+
+function randomId() {
+  return Math.random().toString(36).slice(2) + Date.now().toString(36);
+}
+
+/**
+ * BroadcastChannel transport with a `storage`-event fallback for browsers
+ * that lack it. Leader election uses the Web Locks API when available and a
+ * short-lived localStorage lease otherwise.
+ */
+export function createCrossTabSync(name = 'authkit'): CrossTabSync {
+  const tabId = randomId();
+  const msgKey = `${name}:sync`;
+  const leaseKey = `${name}:refresh-lease`;
+  const listeners = new Set<(msg: AuthSyncMessage) => void>();
+  let pending: Promise<string> | null = null;
+  let closed = false;
+
+  const emit = (msg: AuthSyncMessage) => listeners.forEach((fn) => fn(msg));
+
+  /* ── transport ─────────────────────────────────────────── */
+  const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(name) : null;
+
+  const onChannelMessage = (e: MessageEvent<AuthSyncMessage>) => emit(e.data);
+  const onStorage = (e: StorageEvent) => {
+    if (e.key !== msgKey || !e.newValue) return;
+    try {
+      emit(JSON.parse(e.newValue).msg as AuthSyncMessage);
+    } catch {
+      /* ignore foreign / malformed values */
+    }
+  };
+
+  if (channel) channel.addEventListener('message', onChannelMessage);
+  else window.addEventListener('storage', onStorage);
+
+  function post(msg: AuthSyncMessage) {
+    if (closed) return; // a closed BroadcastChannel throws InvalidStateError
+    if (channel) {
+      channel.postMessage(msg);
+      return;
+    }
+    try {
+      // nonce makes repeated identical messages still fire `storage`
+      localStorage.setItem(msgKey, JSON.stringify({ msg, nonce: randomId() }));
+      localStorage.removeItem(msgKey);
+    } catch {
+      /* ignore storage errors */
+    }
+  }
+
+  /* ── leader election ───────────────────────────────────── */
+  function acquireLease(): boolean {
+    const now = Date.now();
+    try {
+      const raw = localStorage.getItem(leaseKey);
+      const held = raw ? (JSON.parse(raw) as { owner: string; until: number }) : null;
+      if (held && held.owner !== tabId && held.until > now) return false;
+      localStorage.setItem(leaseKey, JSON.stringify({ owner: tabId, until: now + LEASE_MS }));
+      return true;
+    } catch {
+      return true; // no storage ⇒ behave like a lone tab
+    }
+  }
+
+  function releaseLease() {
+    try {
+      const raw = localStorage.getItem(leaseKey);
+      if (raw && JSON.parse(raw).owner === tabId) localStorage.removeItem(leaseKey);
+    } catch {
+      /* ignore storage errors */
+    }
+  }
+
+  async function runIfLeader<T>(fn: () => Promise<T>): Promise<{ value: T } | null> {
+    const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined;
+    if (locks?.request) {
+      return locks.request(`${name}:refresh`, { ifAvailable: true }, async (lock) =>
+        lock ? { value: await fn() } : null,
+      );
+    }
+    if (!acquireLease()) return null;
+    try {
+      return { value: await fn() };
+    } finally {
+      releaseLease();
+    }
+  }
+
+  /* resolves with the leader's token, null on timeout (leader tab went away) */
+  function waitForLeader(): Promise<string | null> {
+    return new Promise((resolve, reject) => {
+      const timer = window.setTimeout(() => done(() => resolve(null)), LEASE_MS);
+      const off = subscribe((msg) => {
+        if (msg.type === 'token' || msg.type === 'login') done(() => resolve(msg.token));
+        else if (msg.type === 'logout') done(() => reject(new Error('Logged out in another tab')));
+        else if (msg.type === 'refresh-failed') {
+          const err = Object.assign(new Error('Token refresh failed in another tab'), {
+            response: { status: msg.status },
+          });
+          done(() => reject(err));
+        }
+      });
+      function done(settle: () => void) {
+        window.clearTimeout(timer);
+        off();
+        settle();
+      }
+    });
+  }
+
+  function refreshAsLeader(refresh: () => Promise<string>): Promise<string> {
+    if (pending) return pending; // dedupe concurrent callers inside this tab
+
+    pending = (async () => {
+      for (;;) {
+        const result = await runIfLeader(async () => {
+          try {
+            const token = await refresh();
+            post({ type: 'token', token });
+            return token;
+          } catch (err) {
+            const status = (err as { response?: { status?: number } })?.response?.status;
+            post({ type: 'refresh-failed', status });
+            throw err;
+          }
+        });
+        if (result) return result.value;
+
+        const shared = await waitForLeader();
+        if (shared) return shared;
+      }
+    })().finally(() => {
+      pending = null;
+    });
+
+    return pending;
+  }
+
+  function subscribe(fn: (msg: AuthSyncMessage) => void) {
+    listeners.add(fn);
+    return () => {
+      listeners.delete(fn);
+    };
+  }
+
+  function close() {
+    listeners.clear();
+    if (channel) channel.removeEventListener('message', onChannelMessage);
+    else window.removeEventListener('storage', onStorage);
+
+    // a refresh already in flight still shares its outcome with the other tabs
+    const shutdown = () => {
+      closed = true;
+      channel?.close();
+    };
+    if (pending) pending.then(shutdown, shutdown);
+    else shutdown();
+  }
+
+  return { post, subscribe, refreshAsLeader, close };
+}
@@ -0,0 +1,60 @@
+// src/utils/endpoints.ts
+import type { AuthConfigProps } from '../models/AuthConfig';
+import type { AuthEndpointName, EndpointConfig } from '../models/Endpoints';
+
+export const DEFAULT_ENDPOINTS: Record<AuthEndpointName, string> = {
+  login: '/api/auth/login',
+  logout: '/api/auth/logout',
+  refresh: '/api/auth/refresh-token',
+  me: '/api/auth/me',
+  updateMe: '/api/auth/me',
+  register: '/api/auth/register',
+  forgotPassword: '/api/auth/forgot-password',
+  resetPassword: '/api/auth/reset-password',
+  mfaVerify: '/api/auth/mfa/verify',
+  mfaEnroll: '/api/auth/mfa/totp/enroll',
+  mfaConfirm: '/api/auth/mfa/totp/confirm',
+  mfaDisable: '/api/auth/mfa/disable',
+  mfaRecoveryCodes: '/api/auth/mfa/recovery-codes',
+  passkeyLoginOptions: '/api/auth/passkeys/login/options',
+  passkeyLogin: '/api/auth/passkeys/login',
+  passkeyRegisterOptions: '/api/auth/passkeys/register/options',
+  passkeyRegister: '/api/auth/passkeys/register',
+  // list (GET), rename (PATCH /:id), delete (DELETE /:id)
+  passkeys: '/api/auth/passkeys',
+  passwordlessStart: '/api/auth/passwordless/start',
+  passwordlessVerify: '/api/auth/passwordless/verify',
+  oauthExchange: '/api/auth/oauth/exchange',
+  identities: '/api/auth/identities',
+};
+
+export type ResolvedEndpoint = Required<EndpointConfig>;
+
+const identity = <T>(x: T) => x;
+
+/**
+ * Merge the consumer's `endpoints` map over the defaults.
+ * The legacy `signUpEndpoint` / `signUpTransformPayload` props still apply
+ * to `register` when `endpoints.register` is not set.
+ */
+export function resolveEndpoint(
+  config: Pick<AuthConfigProps, 'endpoints' | 'signUpEndpoint' | 'signUpTransformPayload'> | null,
+  name: AuthEndpointName,
+): ResolvedEndpoint {
+  let entry = config?.endpoints?.[name];
+  if (!entry && name === 'register' && (config?.signUpEndpoint || config?.signUpTransformPayload)) {
+    entry = {
+      path: config.signUpEndpoint ?? DEFAULT_ENDPOINTS.register,
+      transformRequest: config.signUpTransformPayload,
+    };
+  }
+
+  const cfg: EndpointConfig =
+    typeof entry === 'string' ? { path: entry } : (entry ?? { path: DEFAULT_ENDPOINTS[name] });
+
+  return {
+    path: cfg.path,
+    transformRequest: cfg.transformRequest ?? identity,
+    transformResponse: cfg.transformResponse ?? identity,
+  };
+}
@@ -47,3 +47,32 @@ export function extractHttpErrorMessage(err: unknown): string {
 
   return 'An unexpected error occurred';
 }
+
+/** A throttled (429) or locked-account (423 / `code` mentioning "lock") response */
+export interface RateLimitInfo {
+  locked: boolean;
+  /** From `Retry-After` (seconds or an HTTP date); null when the server sent none */
+  retryAfterSeconds: number | null;
+}
+
+/**
+ * Detect throttling / lockout responses. Cross-origin backends must list
+ * `Retry-After` in `Access-Control-Expose-Headers` for it to be readable.
+ */
+export function getRateLimitInfo(err: unknown, now = Date.now()): RateLimitInfo | null {
+  if (!isAxiosError(err) || !err.response) return null;
+  const { status, headers } = err.response;
+  const data = err.response.data as ErrorResponse | undefined;
+  const locked = status === 423 || /lock/i.test(data?.code ?? '');
+  if (status !== 429 && !locked) return null;
+
+  const header = headers?.['retry-after'] as string | number | undefined;
+  let retryAfterSeconds: number | null = null;
+  if (header !== undefined && header !== null && `${header}`.trim() !== '') {
+    const seconds = Number(header);
+    const date = Date.parse(`${header}`);
+    if (Number.isFinite(seconds)) retryAfterSeconds = Math.max(0, Math.ceil(seconds));
+    else if (!Number.isNaN(date)) retryAfterSeconds = Math.max(0, Math.ceil((date - now) / 1000));
+  }
+  return { locked, retryAfterSeconds };
+}
@@ -1,5 +1,5 @@
 import { jwtDecode } from 'jwt-decode';
-import type { UserProfile } from '../models/User';
+import type { ClaimMapper, JwtClaims, UserProfile } from '../models/User';
 
 interface RawJwt {
   sub: string;
@@ -12,9 +12,22 @@ interface RawJwt {
   tenantId?: string;
 }
 
-export function decodeToken(token: string): UserProfile {
+/** The default user from the standard claims, or `claimMapper`'s result when given. */
+export function decodeToken(token: string): UserProfile;
+export function decodeToken<TUser extends UserProfile>(
+  token: string,
+  claimMapper: ClaimMapper<TUser>,
+): TUser;
+export function decodeToken<TUser extends UserProfile>(
+  token: string,
+  claimMapper?: ClaimMapper<TUser>,
+): TUser | UserProfile;
+export function decodeToken<TUser extends UserProfile>(
+  token: string,
+  claimMapper?: ClaimMapper<TUser>,
+): TUser | UserProfile {
   const d = jwtDecode<RawJwt>(token);
-  return {
+  const user: UserProfile = {
     id: d.sub,
     email: d.email ?? '',
     roles: d.roles ?? [],
@@ -22,4 +35,24 @@ export function decodeToken(token: string): UserProfile {
     modules: d.modules ?? [],
     tenantId: d.tenantId ?? '',
   };
+  return claimMapper ? claimMapper(d as unknown as JwtClaims, user) : user;
+}
+
+/** `exp` claim as ms since epoch, or null when absent / undecodable. */
+export function getTokenExpiry(token: string): number | null {
+  try {
+    const { exp } = jwtDecode<Partial<RawJwt>>(token);
+    return typeof exp === 'number' ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * True once `exp` (plus `clockSkewSeconds` of tolerance for a client clock
+ * running ahead of the server) is in the past. Tokens without `exp` never expire.
+ */
+export function isTokenExpired(token: string, clockSkewSeconds = 0): boolean {
+  const expiry = getTokenExpiry(token);
+  return expiry !== null && expiry + clockSkewSeconds * 1000 <= Date.now();
 }
@@ -0,0 +1,64 @@
+// src/utils/oauthPopup.ts
+
+export const OAUTH_POPUP_NAME = 'authkit-oauth';
+const MESSAGE_TYPE = 'authkit:oauth-callback';
+/** a `message` can trail the popup's close by a moment */
+const CLOSE_GRACE_MS = 300;
+
+/**
+ * Open the provider flow in a centred popup and resolve with the callback's
+ * parameters, or null when the user closes the window first. Returns null
+ * right away when the browser blocked the popup.
+ */
+export function openOAuthPopup(url: string): Promise<URLSearchParams | null> | null {
+  const width = 500;
+  const height = 650;
+  const left = window.screenX + Math.max(0, (window.outerWidth - width) / 2);
+  const top = window.screenY + Math.max(0, (window.outerHeight - height) / 2);
+  const popup = window.open(
+    url,
+    OAUTH_POPUP_NAME,
+    `popup,width=${width},height=${height},left=${left},top=${top}`,
+  );
+  if (!popup || popup.closed) return null;
+
+  return new Promise((resolve) => {
+    const done = (result: URLSearchParams | null) => {
+      window.removeEventListener('message', onMessage);
+      window.clearInterval(watch);
+      window.clearTimeout(grace);
+      resolve(result);
+    };
+
+    // only our own callback page, running in the window we opened
+    const onMessage = (e: MessageEvent) => {
+      if (e.origin !== window.location.origin || e.source !== popup) return;
+      if (e.data?.type !== MESSAGE_TYPE) return;
+      done(new URLSearchParams(e.data.params));
+    };
+
+    let grace: number | undefined;
+    const watch = window.setInterval(() => {
+      if (popup.closed && grace === undefined) {
+        grace = window.setTimeout(() => done(null), CLOSE_GRACE_MS);
+      }
+    }, 500);
+
+    window.addEventListener('message', onMessage);
+  });
+}
+
+/**
+ * On the callback page: when running in the popup, hand the parameters to
+ * the window that opened it and close. False when not in a popup.
+ */
+export function postToOpener(params: URLSearchParams): boolean {
+  const opener = window.opener as Window | null;
+  if (!opener || window.name !== OAUTH_POPUP_NAME) return false;
+  opener.postMessage(
+    { type: MESSAGE_TYPE, params: Object.fromEntries(params) },
+    window.location.origin,
+  );
+  window.close();
+  return true;
+}
@@ -0,0 +1,97 @@
+// src/utils/oauthProviders.ts
+import appleIcon from '../assets/icons/apple-svgrepo-com.svg';
+import githubIcon from '../assets/icons/github-svgrepo-com.svg';
+import gitlabIcon from '../assets/icons/gitlab-svgrepo-com.svg';
+import googleIcon from '../assets/icons/google-icon-svgrepo-com.svg';
+import keyIcon from '../assets/icons/key-svgrepo-com.svg';
+import microsoftIcon from '../assets/icons/microsoft-svgrepo-com.svg';
+import type {
+  BuiltInOAuthProviderId,
+  OAuthProviderConfig,
+  OAuthProviderEntry,
+  ResolvedOAuthProvider,
+} from '../models/OAuthProviders';
+import { bufferToBase64url } from './base64url';
+
+export const BUILT_IN_OAUTH_PROVIDERS: Record<BuiltInOAuthProviderId, OAuthProviderConfig> = {
+  google: { id: 'google', label: 'Google', icon: googleIcon },
+  microsoft: { id: 'microsoft', label: 'Microsoft', icon: microsoftIcon },
+  github: { id: 'github', label: 'GitHub', icon: githubIcon },
+  apple: { id: 'apple', label: 'Apple', icon: appleIcon },
+  gitlab: { id: 'gitlab', label: 'GitLab', icon: gitlabIcon },
+  oidc: { id: 'oidc', label: 'Single sign-on', icon: keyIcon },
+};
+
+function isBuiltIn(id: string): id is BuiltInOAuthProviderId {
+  return Object.prototype.hasOwnProperty.call(BUILT_IN_OAUTH_PROVIDERS, id);
+}
+
+/**
+ * Merge `oauthProviders` entries over the built-ins. Unknown ids given as a
+ * bare string are skipped with a warning (there's nothing to render).
+ */
+export function resolveOAuthProviders(
+  entries: readonly OAuthProviderEntry[] = [],
+): ResolvedOAuthProvider[] {
+  return entries.flatMap((entry) => {
+    const own: OAuthProviderConfig = typeof entry === 'string' ? { id: entry } : entry;
+    const builtIn = isBuiltIn(own.id) ? BUILT_IN_OAUTH_PROVIDERS[own.id] : undefined;
+    if (!builtIn && typeof entry === 'string') {
+      console.warn(`[AuthKit] Unknown OAuth provider "${entry}"; pass a provider object instead.`);
+      return [];
+    }
+    const merged = { ...builtIn, ...own };
+    return [
+      {
+        id: merged.id,
+        label: merged.label ?? merged.id,
+        icon: merged.icon,
+        startUrl: merged.startUrl ?? `/api/auth/${merged.id}`,
+        callbackPath: merged.callbackPath ?? `/api/oauth/${merged.id}/callback`,
+        redirectParam: merged.redirectParam ?? 'redirect',
+        params: merged.params,
+      },
+    ];
+  });
+}
+
+export const OAUTH_STATE_KEY = 'oauthState';
+
+/** Random `state` for one sign-in attempt, kept (this tab only) until the callback checks it. */
+export function createOAuthState(): string {
+  const state = bufferToBase64url(crypto.getRandomValues(new Uint8Array(16)));
+  sessionStorage.setItem(OAUTH_STATE_KEY, state);
+  return state;
+}
+
+/** Set while a redirect-mode "connect account" flow is out at the provider */
+export const OAUTH_LINK_KEY = 'oauthLink';
+/** Where a failed redirect-mode link leaves its message for ProfilePage */
+export const OAUTH_LINK_ERROR_KEY = 'oauthLinkError';
+
+/** Whether `state` is the one issued for this tab's pending attempt. Single use. */
+export function consumeOAuthState(state: string | null): boolean {
+  const expected = sessionStorage.getItem(OAUTH_STATE_KEY);
+  sessionStorage.removeItem(OAUTH_STATE_KEY);
+  return !!expected && state === expected;
+}
+
+/**
+ * Absolute URL that starts `provider`'s sign-in on the backend. The backend
+ * must hand `state` back to the callback unchanged.
+ */
+export function buildOAuthStartUrl(
+  baseUrl: string,
+  provider: ResolvedOAuthProvider,
+  state: string,
+  origin = window.location.origin,
+): string {
+  const isAbsolute = /^https?:\/\//i.test(provider.startUrl);
+  const url = new URL(isAbsolute ? provider.startUrl : `${baseUrl}${provider.startUrl}`);
+  url.searchParams.set(provider.redirectParam, new URL(provider.callbackPath, origin).toString());
+  for (const [key, value] of Object.entries(provider.params ?? {})) {
+    url.searchParams.set(key, value);
+  }
+  url.searchParams.set('state', state);
+  return url.toString();
+}
@@ -0,0 +1,281 @@
+// src/utils/oidc.ts
+import axios from 'axios';
+import type { OidcConfig, OidcDiscovery, OidcTokens } from '../models/Oidc';
+import { base64urlToBuffer, bufferToBase64url } from './base64url';
+
+export const OIDC_TRANSACTION_KEY = 'oidcTransaction';
+
+/** Survives the round trip to the IdP (sessionStorage, this tab only) */
+interface OidcTransaction {
+  state: string;
+  nonce: string;
+  verifier: string;
+  redirectUri: string;
+}
+
+type Jwk = JsonWebKey & { kid?: string };
+
+const ALGORITHMS: Record<
+  string,
+  {
+    kty: 'RSA' | 'EC';
+    importParams: RsaHashedImportParams | EcKeyImportParams;
+    verifyParams: AlgorithmIdentifier | EcdsaParams;
+  }
+> = {
+  RS256: {
+    kty: 'RSA',
+    importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    verifyParams: 'RSASSA-PKCS1-v1_5',
+  },
+  RS384: {
+    kty: 'RSA',
+    importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-384' },
+    verifyParams: 'RSASSA-PKCS1-v1_5',
+  },
+  RS512: {
+    kty: 'RSA',
+    importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-512' },
+    verifyParams: 'RSASSA-PKCS1-v1_5',
+  },
+  ES256: {
+    kty: 'EC',
+    importParams: { name: 'ECDSA', namedCurve: 'P-256' },
+    verifyParams: { name: 'ECDSA', hash: 'SHA-256' },
+  },
+  ES384: {
+    kty: 'EC',
+    importParams: { name: 'ECDSA', namedCurve: 'P-384' },
+    verifyParams: { name: 'ECDSA', hash: 'SHA-384' },
+  },
+};
+
+const discoveryCache = new Map<string, Promise<OidcDiscovery>>();
+const jwksCache = new Map<string, Promise<Jwk[]>>();
+
+/** Fetch (once per issuer) and cache a promise; failures are not cached. */
+function cached<T>(cache: Map<string, Promise<T>>, key: string, load: () => Promise<T>) {
+  let hit = cache.get(key);
+  if (!hit) {
+    hit = load();
+    hit.catch(() => cache.delete(key));
+    cache.set(key, hit);
+  }
+  return hit;
+}
+
+/** The discovery document must name the issuer it was fetched for (trailing slashes aside). */
+export function fetchOidcDiscovery(issuer: string): Promise<OidcDiscovery> {
+  const base = issuer.replace(/\/+$/, '');
+  return cached(discoveryCache, base, async () => {
+    const { data } = await axios.get<OidcDiscovery>(`${base}/.well-known/openid-configuration`);
+    if (data?.issuer?.replace(/\/+$/, '') !== base) {
+      throw new Error('OIDC discovery issuer mismatch');
+    }
+    return data;
+  });
+}
+
+function fetchJwks(jwksUri: string, force = false): Promise<Jwk[]> {
+  if (force) jwksCache.delete(jwksUri);
+  return cached(jwksCache, jwksUri, async () => {
+    const { data } = await axios.get<{ keys: Jwk[] }>(jwksUri);
+    return data.keys ?? [];
+  });
+}
+
+function randomToken(bytes = 32): string {
+  return bufferToBase64url(crypto.getRandomValues(new Uint8Array(bytes)));
+}
+
+/** RFC 7636 verifier and its S256 challenge */
+export async function createPkcePair(): Promise<{ verifier: string; challenge: string }> {
+  const verifier = randomToken(32);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return { verifier, challenge: bufferToBase64url(digest) };
+}
+
+/**
+ * Build the authorize URL and remember state, nonce and PKCE verifier for
+ * the callback. Navigating there is up to the caller.
+ */
+export async function createOidcAuthorizeUrl(
+  oidc: OidcConfig,
+  redirectUri: string,
+): Promise<string> {
+  const discovery = await fetchOidcDiscovery(oidc.issuer);
+  const { verifier, challenge } = await createPkcePair();
+  const tx: OidcTransaction = {
+    state: randomToken(16),
+    nonce: randomToken(16),
+    verifier,
+    redirectUri,
+  };
+  sessionStorage.setItem(OIDC_TRANSACTION_KEY, JSON.stringify(tx));
+
+  const url = new URL(discovery.authorization_endpoint);
+  // extras first: they must never replace the protocol / security parameters
+  const params: Record<string, string> = {
+    ...oidc.authParams,
+    response_type: 'code',
+    client_id: oidc.clientId,
+    redirect_uri: redirectUri,
+    scope: oidc.scope ?? 'openid profile email',
+    state: tx.state,
+    nonce: tx.nonce,
+    code_challenge: challenge,
+    code_challenge_method: 'S256',
+  };
+  for (const [key, value] of Object.entries(params)) url.searchParams.set(key, value);
+  return url.toString();
+}
+
+async function requestTokens(
+  discovery: OidcDiscovery,
+  body: Record<string, string>,
+): Promise<OidcTokens> {
+  const { data } = await axios.post(discovery.token_endpoint, new URLSearchParams(body), {
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+  });
+  if (!data?.access_token) throw new Error('Token endpoint returned no access_token');
+  // opaque access tokens carry no `exp`: the response's lifetime is all there is
+  const expiresIn = Number(data.expires_in);
+  return {
+    accessToken: data.access_token,
+    refreshToken: data.refresh_token,
+    idToken: data.id_token,
+    expiresAt: expiresIn > 0 ? Date.now() + expiresIn * 1000 : undefined,
+  };
+}
+
+const decodeSegment = (segment: string) =>
+  JSON.parse(new TextDecoder().decode(base64urlToBuffer(segment)));
+
+/**
+ * Check the ID token's signature against the issuer's JWKS plus the
+ * iss / aud / azp / exp / nonce claims. Returns the claims.
+ */
+export async function validateIdToken(
+  idToken: string,
+  opts: { discovery: OidcDiscovery; clientId: string; nonce?: string; clockSkewSeconds?: number },
+): Promise<Record<string, unknown>> {
+  const [headerPart, payloadPart, signaturePart] = idToken.split('.');
+  if (!headerPart || !payloadPart || !signaturePart) throw new Error('Malformed ID token');
+  const header = decodeSegment(headerPart) as { alg: string; kid?: string };
+  const claims = decodeSegment(payloadPart) as Record<string, unknown>;
+
+  const algorithm = ALGORITHMS[header.alg];
+  if (!algorithm) throw new Error(`Unsupported ID token algorithm "${header.alg}"`);
+
+  // without a kid, only a signing key of the token's type (and curve / alg, when stated) fits
+  const fits = (k: Jwk) =>
+    k.use !== 'enc' &&
+    k.kty === algorithm.kty &&
+    (!k.alg || k.alg === header.alg) &&
+    (!('namedCurve' in algorithm.importParams) || k.crv === algorithm.importParams.namedCurve);
+  const pick = (keys: Jwk[]) => keys.find((k) => (header.kid ? k.kid === header.kid : fits(k)));
+  // unknown kid: the IdP may have rotated keys since we cached them
+  const jwk =
+    pick(await fetchJwks(opts.discovery.jwks_uri)) ??
+    pick(await fetchJwks(opts.discovery.jwks_uri, true));
+  if (!jwk) throw new Error('No matching signing key for the ID token');
+
+  const key = await crypto.subtle.importKey('jwk', jwk, algorithm.importParams, false, ['verify']);
+  const valid = await crypto.subtle.verify(
+    algorithm.verifyParams,
+    key,
+    base64urlToBuffer(signaturePart),
+    new TextEncoder().encode(`${headerPart}.${payloadPart}`),
+  );
+  if (!valid) throw new Error('ID token signature is invalid');
+
+  const audiences = ([] as unknown[]).concat(claims.aud);
+  const skewMs = (opts.clockSkewSeconds ?? 0) * 1000;
+  if (claims.iss !== opts.discovery.issuer) throw new Error('ID token issuer mismatch');
+  if (!audiences.includes(opts.clientId)) throw new Error('ID token audience mismatch');
+  if (audiences.length > 1 && claims.azp !== opts.clientId) {
+    throw new Error('ID token authorized party mismatch');
+  }
+  if (typeof claims.exp !== 'number' || claims.exp * 1000 + skewMs <= Date.now()) {
+    throw new Error('ID token has expired');
+  }
+  if (opts.nonce !== undefined && claims.nonce !== opts.nonce) {
+    throw new Error('ID token nonce mismatch');
+  }
+  return claims;
+}
+
+/**
+ * Finish the flow from the callback's query string: check state, redeem the
+ * code with the PKCE verifier and validate the ID token.
+ */
+export async function completeOidcLogin(
+  oidc: OidcConfig,
+  search: string,
+  clockSkewSeconds = 0,
+): Promise<OidcTokens> {
+  const params = new URLSearchParams(search);
+  const stored = sessionStorage.getItem(OIDC_TRANSACTION_KEY);
+  sessionStorage.removeItem(OIDC_TRANSACTION_KEY); // single use, whatever happens next
+
+  const error = params.get('error');
+  if (error) throw new Error(params.get('error_description') ?? error);
+  if (!stored) throw new Error('No sign-in in progress for this callback');
+
+  const tx = JSON.parse(stored) as OidcTransaction;
+  if (params.get('state') !== tx.state) throw new Error('OIDC state mismatch');
+  const code = params.get('code');
+  if (!code) throw new Error('OIDC callback is missing the authorization code');
+
+  const discovery = await fetchOidcDiscovery(oidc.issuer);
+  const tokens = await requestTokens(discovery, {
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: tx.redirectUri,
+    client_id: oidc.clientId,
+    code_verifier: tx.verifier,
+  });
+  if (!tokens.idToken) throw new Error('Token endpoint returned no id_token');
+  await validateIdToken(tokens.idToken, {
+    discovery,
+    clientId: oidc.clientId,
+    nonce: tx.nonce,
+    clockSkewSeconds,
+  });
+  return tokens;
+}
+
+/** refresh_token grant; a returned ID token is validated too (no nonce on refresh). */
+export async function refreshOidcTokens(
+  oidc: OidcConfig,
+  refreshToken: string,
+  clockSkewSeconds = 0,
+): Promise<OidcTokens> {
+  const discovery = await fetchOidcDiscovery(oidc.issuer);
+  const tokens = await requestTokens(discovery, {
+    grant_type: 'refresh_token',
+    refresh_token: refreshToken,
+    client_id: oidc.clientId,
+  });
+  if (tokens.idToken) {
+    await validateIdToken(tokens.idToken, { discovery, clientId: oidc.clientId, clockSkewSeconds });
+  }
+  return tokens;
+}
+
+/** RP-initiated logout URL, or null when the IdP has no `end_session_endpoint`. */
+export async function createOidcLogoutUrl(
+  oidc: OidcConfig,
+  idToken: string | null,
+): Promise<string | null> {
+  const { end_session_endpoint } = await fetchOidcDiscovery(oidc.issuer);
+  if (!end_session_endpoint) return null;
+  const url = new URL(end_session_endpoint);
+  url.searchParams.set('client_id', oidc.clientId);
+  url.searchParams.set(
+    'post_logout_redirect_uri',
+    oidc.postLogoutRedirectUri ?? window.location.origin,
+  );
+  if (idToken) url.searchParams.set('id_token_hint', idToken);
+  return url.toString();
+}
@@ -0,0 +1,26 @@
+// src/utils/publicPaths.ts
+import type { AuthConfigProps } from '../models/AuthConfig';
+
+/* "*" matches within one segment, "**" across segments ("/docs/**" also matches "/docs") */
+function globToRegExp(glob: string) {
+  const source = glob
+    .split(/(\/\*\*|\*\*|\*)/)
+    .map((part) => {
+      if (part === '/**') return '(?:/.*)?';
+      if (part === '**') return '.*';
+      if (part === '*') return '[^/]*';
+      return part.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}/?$`);
+}
+
+/** Whether `pathname` may be rendered without signing in. */
+export function isPublicPath(
+  pathname: string,
+  publicPaths: AuthConfigProps['publicPaths'],
+): boolean {
+  if (!publicPaths) return false;
+  if (typeof publicPaths === 'function') return publicPaths(pathname);
+  return publicPaths.some((glob) => globToRegExp(glob).test(pathname));
+}
@@ -0,0 +1,82 @@
+// src/utils/redirectIntent.ts
+
+/**
+ * Where to send the user once they are signed in. Kept in sessionStorage so it
+ * survives full-page hops (OAuth round-trips, sign-up → verify-email → login).
+ */
+export const REDIRECT_INTENT_KEY = 'postLoginRedirect';
+
+type LocationLike = { pathname?: string; search?: string; hash?: string };
+
+/** `Location` (or a router `state.from`) → `path?search#hash`; null when unusable. */
+export function toRedirectTarget(from: unknown): string | null {
+  if (typeof from === 'string') return from || null;
+  if (!from || typeof from !== 'object') return null;
+  const { pathname, search = '', hash = '' } = from as LocationLike;
+  return pathname ? `${pathname}${search}${hash}` : null;
+}
+
+/** Remember `from` as the post-login destination (ignored when unusable). */
+export function saveRedirectIntent(from: unknown) {
+  const target = toRedirectTarget(from);
+  if (!target) return;
+  try {
+    sessionStorage.setItem(REDIRECT_INTENT_KEY, target);
+  } catch {
+    /* ignore storage errors */
+  }
+}
+
+/**
+ * Guards against open redirects. Same-origin targets come back as a relative
+ * `path?search#hash`; other origins only pass when listed in `allowedOrigins`
+ * and come back as absolute URLs. Anything else (protocol-relative URLs,
+ * `javascript:`, foreign hosts) yields null, with a console warning outside
+ * production builds.
+ */
+export function sanitizeRedirect(target: string, allowedOrigins: string[] = []): string | null {
+  const url = parseUrl(target, window.location.origin);
+  if (url?.origin === window.location.origin) {
+    return `${url.pathname}${url.search}${url.hash}`;
+  }
+  if (
+    url &&
+    /^https?:$/.test(url.protocol) &&
+    allowedOrigins.some((o) => parseUrl(o)?.origin === url.origin)
+  ) {
+    return url.href;
+  }
+  // left to the consuming app's bundler; `process` is undefined in unbundled UMD use
+  if (typeof process !== 'undefined' && process.env.NODE_ENV !== 'production') {
+    console.warn(`[AuthKit] Ignoring unsafe redirect target "${target}".`);
+  }
+  return null;
+}
+
+function parseUrl(value: string, base?: string): URL | null {
+  try {
+    return new URL(value, base);
+  } catch {
+    return null;
+  }
+}
+
+/** True for targets that leave the SPA (allowed cross-origin redirects). */
+export function isExternalRedirect(target: string) {
+  return /^https?:\/\//i.test(target);
+}
+
+/**
+ * Read and clear the stored destination. Unsafe or missing targets fall
+ * back to `fallback`.
+ */
+export function consumeRedirectIntent(fallback = '/', allowedOrigins: string[] = []): string {
+  let target: string | null = null;
+  try {
+    target = sessionStorage.getItem(REDIRECT_INTENT_KEY);
+    sessionStorage.removeItem(REDIRECT_INTENT_KEY);
+  } catch {
+    /* ignore storage errors */
+  }
+  return (target && sanitizeRedirect(target, allowedOrigins)) || fallback;
+}
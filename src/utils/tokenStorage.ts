@@ -0,0 +1,121 @@
+// src/utils/tokenStorage.ts
+import type { CookieTokenStorageOptions, TokenStorage } from '../models/TokenStorage';
+
+export const ACCESS_TOKEN_KEY = 'authToken';
+export const REFRESH_TOKEN_KEY = 'refreshToken';
+export const ID_TOKEN_KEY = 'idToken';
+/** OIDC access-token expiry (ms since epoch) from `expires_in`, for opaque access tokens */
+export const ACCESS_TOKEN_EXPIRY_KEY = 'authTokenExpiresAt';
+/** Set to "session" in localStorage when the user did not ask to be remembered */
+export const PERSISTENCE_KEY = 'authPersistence';
+
+/**
+ * Keeps tokens in memory only. Nothing survives a reload, so the
+ * refresh cookie is the only way back into the session — the safest
+ * option against XSS token exfiltration.
+ */
+export function createMemoryTokenStorage(): TokenStorage {
+  const store = new Map<string, string>();
+  return {
+    get: (key) => store.get(key) ?? null,
+    set: (key, value) => {
+      store.set(key, value);
+    },
+    remove: (key) => {
+      store.delete(key);
+    },
+  };
+}
+
+/* Web Storage access can throw (Safari private mode, disabled storage, SSR) */
+function fromWebStorage(resolve: () => Storage): TokenStorage {
+  return {
+    get: (key) => {
+      try {
+        return resolve().getItem(key);
+      } catch {
+        return null;
+      }
+    },
+    set: (key, value) => {
+      try {
+        resolve().setItem(key, value);
+      } catch {
+        /* ignore storage errors */
+      }
+    },
+    remove: (key) => {
+      try {
+        resolve().removeItem(key);
+      } catch {
+        /* ignore storage errors */
+      }
+    },
+  };
+}
+
+/** Tokens live until the tab is closed. */
+export function createSessionTokenStorage(): TokenStorage {
+  return fromWebStorage(() => window.sessionStorage);
+}
+
+/** Tokens persist across tabs and restarts (the historical default). */
+export function createLocalTokenStorage(): TokenStorage {
+  return fromWebStorage(() => window.localStorage);
+}
+
+/**
+ * "Remember me": tokens go to localStorage, or to sessionStorage after
+ * `setPersistent(false)`. The choice itself is kept in localStorage so
+ * reloads and new tabs store refreshed tokens the same way.
+ */
+export function createRememberMeTokenStorage(): TokenStorage {
+  const session = createSessionTokenStorage();
+  const local = createLocalTokenStorage();
+  const current = () => (local.get(PERSISTENCE_KEY) === 'session' ? session : local);
+  return {
+    get: (key) => current().get(key),
+    set: (key, value) => current().set(key, value),
+    remove: (key) => {
+      session.remove(key);
+      local.remove(key);
+    },
+    setPersistent: (persistent) => {
+      if (persistent) local.remove(PERSISTENCE_KEY);
+      else local.set(PERSISTENCE_KEY, 'session');
+    },
+  };
+}
+
+/**
+ * Tokens stored in first-party cookies. Note that cookies written from
+ * JavaScript can never be HttpOnly; use this when the token must be
+ * shared with sub-domains, not as an XSS mitigation.
+ */
+export function createCookieTokenStorage(options: CookieTokenStorageOptions = {}): TokenStorage {
+  const { path = '/', domain, maxAge, sameSite = 'Strict', secure = true } = options;
+
+  function write(key: string, value: string, age?: number) {
+    const parts = [`${encodeURIComponent(key)}=${encodeURIComponent(value)}`, `path=${path}`];
+    if (domain) parts.push(`domain=${domain}`);
+    if (age !== undefined) parts.push(`max-age=${age}`);
+    parts.push(`samesite=${sameSite}`);
+    if (secure) parts.push('secure');
+    document.cookie = parts.join('; ');
+  }
+
+  return {
+    get: (key) => {
+      const name = `${encodeURIComponent(key)}=`;
+      const hit = document.cookie
+        .split(';')
+        .map((c) => c.trim())
+        .find((c) => c.startsWith(name));
+      return hit ? decodeURIComponent(hit.slice(name.length)) : null;
+    },
+    set: (key, value) => write(key, value, maxAge),
+    remove: (key) => write(key, '', 0),
+  };
+}
+
+export const defaultTokenStorage = createLocalTokenStorage();
@@ -0,0 +1,108 @@
+// src/utils/webauthn.ts
+import type {
+  PasskeyCreationOptionsJSON,
+  PasskeyCredentialJSON,
+  PasskeyDescriptorJSON,
+  PasskeyRequestOptionsJSON,
+} from '../models/Passkeys';
+import { base64urlToBuffer, bufferToBase64url } from './base64url';
+
+export function isPasskeySupported(): boolean {
+  return (
+    typeof window !== 'undefined' &&
+    typeof window.PublicKeyCredential !== 'undefined' &&
+    !!navigator.credentials
+  );
+}
+
+/** Whether the browser can offer passkeys from the username field's autofill. */
+export async function isConditionalMediationAvailable(): Promise<boolean> {
+  if (!isPasskeySupported()) return false;
+  try {
+    return (await PublicKeyCredential.isConditionalMediationAvailable?.()) ?? false;
+  } catch {
+    return false;
+  }
+}
+
+const toDescriptor = (d: PasskeyDescriptorJSON): PublicKeyCredentialDescriptor => ({
+  ...d,
+  id: base64urlToBuffer(d.id),
+});
+
+export function toRequestOptions(
+  json: PasskeyRequestOptionsJSON,
+): PublicKeyCredentialRequestOptions {
+  return {
+    ...json,
+    challenge: base64urlToBuffer(json.challenge),
+    allowCredentials: json.allowCredentials?.map(toDescriptor),
+  };
+}
+
+export function toCreationOptions(
+  json: PasskeyCreationOptionsJSON,
+): PublicKeyCredentialCreationOptions {
+  return {
+    ...json,
+    challenge: base64urlToBuffer(json.challenge),
+    user: { ...json.user, id: base64urlToBuffer(json.user.id) },
+    excludeCredentials: json.excludeCredentials?.map(toDescriptor),
+  };
+}
+
+const optional = (buf: ArrayBuffer | null | undefined) => (buf ? bufferToBase64url(buf) : buf);
+
+export function serializeCredential(credential: PublicKeyCredential): PasskeyCredentialJSON {
+  const response = credential.response as Partial<
+    AuthenticatorAssertionResponse & AuthenticatorAttestationResponse
+  > &
+    AuthenticatorResponse;
+  return {
+    id: credential.id,
+    rawId: bufferToBase64url(credential.rawId),
+    type: credential.type,
+    authenticatorAttachment: credential.authenticatorAttachment,
+    response: {
+      clientDataJSON: bufferToBase64url(response.clientDataJSON),
+      authenticatorData: optional(response.authenticatorData) ?? undefined,
+      signature: optional(response.signature) ?? undefined,
+      userHandle: optional(response.userHandle),
+      attestationObject: optional(response.attestationObject) ?? undefined,
+      transports: response.getTransports?.(),
+    },
+    clientExtensionResults: credential.getClientExtensionResults(),
+  };
+}
+
+/**
+ * Ask the authenticator to sign the server's challenge. With
+ * `mediation: 'conditional'` the request waits for the user to pick a
+ * passkey from the username field's autofill instead of opening a dialog.
+ */
+export async function getPasskeyAssertion(
+  options: PasskeyRequestOptionsJSON,
+  { mediation, signal }: { mediation?: CredentialMediationRequirement; signal?: AbortSignal } = {},
+): Promise<PasskeyCredentialJSON> {
+  const credential = await navigator.credentials.get({
+    publicKey: toRequestOptions(options),
+    mediation,
+    signal,
+  });
+  if (!credential) throw new Error('No passkey was selected');
+  return serializeCredential(credential as PublicKeyCredential);
+}
+
+export async function createPasskey(
+  options: PasskeyCreationOptionsJSON,
+): Promise<PasskeyCredentialJSON> {
+  const credential = await navigator.credentials.create({ publicKey: toCreationOptions(options) });
+  if (!credential) throw new Error('Passkey registration was cancelled');
+  return serializeCredential(credential as PublicKeyCredential);
+}
+
+/** User dismissed the browser prompt, or a newer request aborted this one. */
+export function isPasskeyCancellation(err: unknown): boolean {
+  const name = (err as { name?: string })?.name;
+  return name === 'NotAllowedError' || name === 'AbortError';
+}
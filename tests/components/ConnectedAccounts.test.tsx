@@ -0,0 +1,120 @@
+import React from 'react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+
+vi.mock('@ciscode/ui-translate-core', () => ({
+  useT: () => (key: string, opts?: { defaultValue?: string }) => opts?.defaultValue ?? key,
+}));
+
+import { AuthConfigContext } from '../../src/context/AuthConfigContext';
+import { AuthStateCtx } from '../../src/context/AuthStateContext';
+import { ConnectedAccounts } from '../../src/components/ConnectedAccounts';
+
+const mockApi = { get: vi.fn(), post: vi.fn(), delete: vi.fn() } as any;
+const baseConfig = { baseUrl: 'https://api.test', oauthProviders: ['google', 'github'] };
+
+function renderSection({
+  hasPassword = true as boolean | null,
+  passkeyCount = 0 as number | null,
+  config = baseConfig as any,
+} = {}) {
+  return render(
+    <MemoryRouter initialEntries={['/profile']}>
+      <AuthConfigContext.Provider value={config}>
+        <AuthStateCtx.Provider value={{ api: mockApi, loginWithOAuth: vi.fn() } as any}>
+          <ConnectedAccounts hasPassword={hasPassword} passkeyCount={passkeyCount} />
+        </AuthStateCtx.Provider>
+      </AuthConfigContext.Provider>
+    </MemoryRouter>,
+  );
+}
+
+describe('ConnectedAccounts', () => {
+  beforeEach(() => {
+    Object.values(mockApi).forEach((fn: any) => fn.mockReset());
+    mockApi.get.mockResolvedValue({ data: [{ provider: 'google', email: 'a@gmail.com' }] });
+    mockApi.delete.mockResolvedValue({ data: {} });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    sessionStorage.clear();
+  });
+
+  it('lists configured providers with their connection state', async () => {
+    renderSection();
+    expect(await screen.findByText('Connected as a@gmail.com')).toBeInTheDocument();
+    expect(screen.getByText('Not connected')).toBeInTheDocument();
+    expect(mockApi.get).toHaveBeenCalledWith('/api/auth/identities');
+  });
+
+  it('starts the link flow through the provider start URL', async () => {
+    const realLocation = window.location;
+    Object.defineProperty(window, 'location', {
+      value: { ...realLocation, href: realLocation.href },
+      writable: true,
+    });
+    renderSection();
+    await screen.findByText('Not connected');
+    fireEvent.click(screen.getByText('Connect'));
+
+    const url = new URL(window.location.href);
+    expect(`${url.origin}${url.pathname}`).toBe('https://api.test/api/auth/github');
+    expect(url.searchParams.get('intent')).toBe('link');
+    expect(url.searchParams.get('state')).toBe(sessionStorage.getItem('oauthState'));
+    expect(sessionStorage.getItem('oauthLink')).toBe('github');
+    expect(sessionStorage.getItem('postLoginRedirect')).toBe('/profile');
+    Object.defineProperty(window, 'location', { value: realLocation, writable: true });
+  });
+
+  it('unlinks an identity after confirmation', async () => {
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+    renderSection();
+    fireEvent.click(await screen.findByText('Disconnect'));
+
+    await waitFor(() => expect(screen.getAllByText('Not connected')).toHaveLength(2));
+    expect(mockApi.delete).toHaveBeenCalledWith('/api/auth/identities/google');
+  });
+
+  it('keeps the last sign-in method from being unlinked', async () => {
+    renderSection({ hasPassword: false });
+    expect(await screen.findByText('Disconnect')).toBeDisabled();
+    expect(screen.getByText(/This is your only way to sign in/)).toBeInTheDocument();
+  });
+
+  it('keeps unlink disabled until the profile and passkeys have loaded', async () => {
+    const { unmount } = renderSection({ hasPassword: null });
+    expect(await screen.findByText('Disconnect')).toBeDisabled();
+    expect(screen.queryByText(/This is your only way to sign in/)).not.toBeInTheDocument();
+    unmount();
+
+    renderSection({ hasPassword: false, passkeyCount: null });
+    expect(await screen.findByText('Disconnect')).toBeDisabled();
+  });
+
+  it('counts a registered passkey as another way to sign in', async () => {
+    renderSection({ hasPassword: false, passkeyCount: 1 });
+    await waitFor(() => expect(screen.getByText('Disconnect')).toBeEnabled());
+  });
+
+  it('shows a failed link from the redirect round-trip', async () => {
+    sessionStorage.setItem('oauthLinkError', 'That account is linked to another user');
+    renderSection();
+    expect(await screen.findByRole('alert')).toHaveTextContent(
+      'That account is linked to another user',
+    );
+    expect(sessionStorage.getItem('oauthLinkError')).toBeNull();
+  });
+
+  it('shows unlink errors inline', async () => {
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+    mockApi.delete.mockRejectedValue({
+      isAxiosError: true,
+      response: { data: { message: 'Cannot remove this account' } },
+    });
+    renderSection();
+    fireEvent.click(await screen.findByText('Disconnect'));
+    expect(await screen.findByRole('alert')).toHaveTextContent('Cannot remove this account');
+  });
+});
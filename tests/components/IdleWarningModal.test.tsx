@@ -0,0 +1,29 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+
+vi.mock('@ciscode/ui-translate-core', () => ({
+  useT: () => (key: string, opts?: { defaultValue?: string }) => opts?.defaultValue ?? key,
+}));
+
+import { IdleWarningModal } from '../../src/components/IdleWarningModal';
+
+describe('IdleWarningModal', () => {
+  it('shows the remaining seconds', () => {
+    render(<IdleWarningModal secondsLeft={42} onStay={vi.fn()} onLogout={vi.fn()} />);
+    expect(screen.getByRole('alertdialog')).toBeInTheDocument();
+    expect(screen.getByText(/signed out in 42 seconds/)).toBeInTheDocument();
+  });
+
+  it('wires the stay and sign-out buttons', () => {
+    const onStay = vi.fn();
+    const onLogout = vi.fn();
+    render(<IdleWarningModal secondsLeft={5} onStay={onStay} onLogout={onLogout} />);
+
+    fireEvent.click(screen.getByText('Stay signed in'));
+    fireEvent.click(screen.getByText('Sign out'));
+
+    expect(onStay).toHaveBeenCalledTimes(1);
+    expect(onLogout).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,86 @@
+import React from 'react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { AuthStateCtx } from '../../src/context/AuthStateContext';
+import { MfaSettings } from '../../src/components/MfaSettings';
+
+const mockApi = { post: vi.fn() } as any;
+
+function renderSettings(enabled: boolean, onEnabledChange = vi.fn()) {
+  render(
+    <AuthStateCtx.Provider value={{ api: mockApi } as any}>
+      <MfaSettings enabled={enabled} onEnabledChange={onEnabledChange} />
+    </AuthStateCtx.Provider>,
+  );
+  return onEnabledChange;
+}
+
+const enterCode = (code: string) =>
+  fireEvent.paste(screen.getByLabelText('Authenticator code 1'), {
+    clipboardData: { getData: () => code },
+  });
+
+describe('MfaSettings', () => {
+  beforeEach(() => mockApi.post.mockReset());
+
+  it('enrolls TOTP and shows the recovery codes', async () => {
+    mockApi.post
+      .mockResolvedValueOnce({
+        data: {
+          secret: 'JBSWY3DP',
+          otpauthUrl: 'otpauth://totp/x',
+          qrCode: 'data:image/png;base64,AA',
+        },
+      })
+      .mockResolvedValueOnce({ data: { recoveryCodes: ['aaaa-1111', 'bbbb-2222'] } });
+    const onEnabledChange = renderSettings(false);
+
+    fireEvent.click(screen.getByText('Set up authenticator app'));
+    expect(await screen.findByText('JBSWY3DP')).toBeInTheDocument();
+    expect(screen.getByAltText('Authenticator QR code')).toHaveAttribute(
+      'src',
+      'data:image/png;base64,AA',
+    );
+
+    enterCode('123456');
+    fireEvent.click(screen.getByText('Verify and turn on'));
+
+    expect(await screen.findByText('aaaa-1111')).toBeInTheDocument();
+    expect(mockApi.post).toHaveBeenLastCalledWith('/api/auth/mfa/totp/confirm', { code: '123456' });
+    expect(onEnabledChange).toHaveBeenCalledWith(true);
+  });
+
+  it('copies recovery codes to the clipboard', async () => {
+    const writeText = vi.fn().mockResolvedValue(undefined);
+    Object.assign(navigator, { clipboard: { writeText } });
+    mockApi.post.mockResolvedValueOnce({ data: { recoveryCodes: ['a', 'b'] } });
+    renderSettings(true);
+
+    fireEvent.click(screen.getByText('Regenerate recovery codes'));
+    enterCode('654321');
+    fireEvent.click(screen.getByText('Regenerate'));
+    fireEvent.click(await screen.findByText('Copy'));
+
+    expect(await screen.findByText('Copied')).toBeInTheDocument();
+    expect(writeText).toHaveBeenCalledWith('a\nb');
+  });
+
+  it('disables MFA with a confirmation code and surfaces errors', async () => {
+    mockApi.post
+      .mockRejectedValueOnce(new Error('Invalid code'))
+      .mockResolvedValueOnce({ data: {} });
+    const onEnabledChange = renderSettings(true);
+
+    fireEvent.click(screen.getByText('Disable two-factor authentication'));
+    enterCode('000000');
+    fireEvent.click(screen.getByText('Disable'));
+    expect(await screen.findByText('Invalid code')).toBeInTheDocument();
+
+    enterCode('123456');
+    fireEvent.click(screen.getByText('Disable'));
+    // back to the overview (the parent owns `enabled`)
+    expect(await screen.findByText('Regenerate recovery codes')).toBeInTheDocument();
+    expect(mockApi.post).toHaveBeenLastCalledWith('/api/auth/mfa/disable', { code: '123456' });
+    expect(onEnabledChange).toHaveBeenCalledWith(false);
+  });
+});
@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import { describe, it, expect } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { OtpInput } from '../../src/components/actions/OtpInput';
+
+function Harness() {
+  const [code, setCode] = useState('');
+  return (
+    <>
+      <OtpInput value={code} onChange={setCode} label="Code" />
+      <output data-testid="code">{code}</output>
+    </>
+  );
+}
+
+const box = (n: number) => screen.getByLabelText(`Code ${n}`) as HTMLInputElement;
+
+describe('OtpInput', () => {
+  it('renders one box per digit with one-time-code autofill on the first', () => {
+    render(<Harness />);
+    expect(screen.getAllByRole('textbox')).toHaveLength(6);
+    expect(box(1)).toHaveAttribute('autocomplete', 'one-time-code');
+    expect(box(1)).toHaveAttribute('inputmode', 'numeric');
+  });
+
+  it('advances focus while typing and ignores non-digits', () => {
+    render(<Harness />);
+    fireEvent.change(box(1), { target: { value: '4' } });
+    fireEvent.change(box(2), { target: { value: 'x' } });
+    expect(screen.getByTestId('code').textContent).toBe('4');
+    expect(document.activeElement).toBe(box(2));
+  });
+
+  it('spreads a pasted or autofilled code over all boxes', () => {
+    render(<Harness />);
+    fireEvent.paste(box(1), { clipboardData: { getData: () => '123 456' } });
+    expect(screen.getByTestId('code').textContent).toBe('123456');
+    expect(box(6).value).toBe('6');
+
+    fireEvent.change(box(1), { target: { value: '987654' } });
+    expect(screen.getByTestId('code').textContent).toBe('987654');
+  });
+
+  it('clears backwards on Backspace', () => {
+    render(<Harness />);
+    fireEvent.paste(box(1), { clipboardData: { getData: () => '123' } });
+    fireEvent.keyDown(box(4), { key: 'Backspace' });
+    expect(screen.getByTestId('code').textContent).toBe('12');
+  });
+});
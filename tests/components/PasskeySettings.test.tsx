@@ -0,0 +1,102 @@
+import React from 'react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { AuthStateCtx } from '../../src/context/AuthStateContext';
+import { PasskeySettings } from '../../src/components/PasskeySettings';
+
+const mockApi = { get: vi.fn(), post: vi.fn(), patch: vi.fn(), delete: vi.fn() } as any;
+
+function renderSettings(hasOtherMethod: boolean | null = true) {
+  return render(
+    <AuthStateCtx.Provider value={{ api: mockApi } as any}>
+      <PasskeySettings hasOtherMethod={hasOtherMethod} />
+    </AuthStateCtx.Provider>,
+  );
+}
+
+describe('PasskeySettings', () => {
+  beforeEach(() => {
+    Object.values(mockApi).forEach((fn: any) => fn.mockReset());
+    mockApi.get.mockResolvedValue({ data: [{ id: 'pk 1', name: 'MacBook' }] });
+    mockApi.patch.mockResolvedValue({ data: {} });
+    mockApi.delete.mockResolvedValue({ data: {} });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('lists and renames passkeys', async () => {
+    renderSettings();
+    expect(await screen.findByText('MacBook')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Rename'));
+    fireEvent.change(screen.getByLabelText('Passkey name'), { target: { value: 'Work laptop' } });
+    fireEvent.click(screen.getByText('Save'));
+
+    expect(await screen.findByText('Work laptop')).toBeInTheDocument();
+    expect(mockApi.patch).toHaveBeenCalledWith('/api/auth/passkeys/pk%201', {
+      name: 'Work laptop',
+    });
+  });
+
+  it('removes a passkey after confirmation', async () => {
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+    renderSettings();
+    fireEvent.click(await screen.findByText('Remove'));
+
+    expect(await screen.findByText('No passkeys yet.')).toBeInTheDocument();
+    expect(mockApi.delete).toHaveBeenCalledWith('/api/auth/passkeys/pk%201');
+  });
+
+  it('keeps the last passkey when it is the only way to sign in', async () => {
+    renderSettings(false);
+    expect(await screen.findByText('Remove')).toBeDisabled();
+    expect(screen.getByText(/This is your only way to sign in/)).toBeInTheDocument();
+  });
+
+  it('registers a new passkey through navigator.credentials.create', async () => {
+    vi.stubGlobal('PublicKeyCredential', function PublicKeyCredential() {});
+    const create = vi.fn().mockResolvedValue({
+      id: 'new',
+      rawId: new Uint8Array([1]).buffer,
+      type: 'public-key',
+      response: {
+        clientDataJSON: new Uint8Array([2]).buffer,
+        attestationObject: new Uint8Array([3]).buffer,
+      },
+      getClientExtensionResults: () => ({}),
+    });
+    Object.defineProperty(navigator, 'credentials', { value: { create }, configurable: true });
+    mockApi.post
+      .mockResolvedValueOnce({
+        data: {
+          challenge: 'AQ',
+          rp: { name: 'Acme' },
+          user: { id: 'AQ', name: 'a', displayName: 'A' },
+          pubKeyCredParams: [],
+        },
+      })
+      .mockResolvedValueOnce({ data: {} });
+    renderSettings();
+    await screen.findByText('MacBook');
+    mockApi.get.mockResolvedValueOnce({
+      data: [
+        { id: 'pk 1', name: 'MacBook' },
+        { id: 'new', name: 'iPhone' },
+      ],
+    });
+
+    fireEvent.click(screen.getByText('Add a passkey'));
+
+    expect(await screen.findByText('iPhone')).toBeInTheDocument();
+    await waitFor(() =>
+      expect(mockApi.post).toHaveBeenLastCalledWith(
+        '/api/auth/passkeys/register',
+        expect.objectContaining({ id: 'new', rawId: 'AQ' }),
+      ),
+    );
+    Object.defineProperty(navigator, 'credentials', { value: undefined, configurable: true });
+  });
+});
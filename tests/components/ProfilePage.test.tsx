@@ -1,6 +1,8 @@
 import React from 'react';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { AuthConfigContext } from '../../src/context/AuthConfigContext';
 import { AuthStateCtx } from '../../src/context/AuthStateContext';
 import { ProfilePage } from '../../src/components/ProfilePage';
 
@@ -32,21 +34,25 @@ const mockApi = {
 
 const mockSetUser = vi.fn();
 
-function renderProfile(user = mockUser, apiOverride = mockApi) {
+function renderProfile(user = mockUser, apiOverride = mockApi, config: any = null) {
   return render(
-    <AuthStateCtx.Provider
-      value={{
-        isAuthenticated: true,
-        user,
-        accessToken: 'token',
-        api: apiOverride,
-        login: vi.fn(),
-        logout: vi.fn(),
-        setUser: mockSetUser,
-      }}
-    >
-      <ProfilePage />
-    </AuthStateCtx.Provider>,
+    <MemoryRouter>
+      <AuthConfigContext.Provider value={config}>
+        <AuthStateCtx.Provider
+          value={{
+            isAuthenticated: true,
+            user,
+            accessToken: 'token',
+            api: apiOverride,
+            login: vi.fn(),
+            logout: vi.fn(),
+            setUser: mockSetUser,
+          }}
+        >
+          <ProfilePage />
+        </AuthStateCtx.Provider>
+      </AuthConfigContext.Provider>
+    </MemoryRouter>,
   );
 }
 
@@ -154,4 +160,40 @@ describe('ProfilePage', () => {
     // Should be back to view mode (Edit profile button visible again)
     await waitFor(() => expect(screen.getByTitle('Edit profile')).toBeInTheDocument());
   });
+
+  it('shows the security section with the MFA state from the profile', async () => {
+    mockApi.get.mockResolvedValueOnce({
+      data: { data: { email: 'user@example.com', mfaEnabled: true } },
+    });
+    renderProfile(mockUser, mockApi, { mfa: true });
+    expect(await screen.findByText('Regenerate recovery codes')).toBeInTheDocument();
+    expect(screen.getByText('Security')).toBeInTheDocument();
+  });
+
+  it('blocks disconnecting the last account once its only passkey is removed', async () => {
+    const confirm = vi.spyOn(window, 'confirm').mockReturnValue(true);
+    const api = {
+      ...mockApi,
+      get: vi.fn(async (path: string) => {
+        if (path === '/api/auth/passkeys') return { data: [{ id: 'pk1', name: 'Laptop' }] };
+        if (path === '/api/auth/identities') return { data: [{ provider: 'google' }] };
+        return { data: { data: { email: 'user@example.com', hasPassword: false } } };
+      }),
+      delete: vi.fn().mockResolvedValue({ data: {} }),
+    };
+    renderProfile(mockUser, api, { passkeys: true, oauthProviders: ['google'] });
+
+    await waitFor(() => expect(screen.getByText('Disconnect')).toBeEnabled());
+    fireEvent.click(screen.getByText('Remove'));
+
+    expect(await screen.findByText('No passkeys yet.')).toBeInTheDocument();
+    expect(screen.getByText('Disconnect')).toBeDisabled();
+    confirm.mockRestore();
+  });
+
+  it('leaves the security section out unless mfa is enabled', async () => {
+    renderProfile();
+    await waitFor(() => expect(mockApi.get).toHaveBeenCalled());
+    expect(screen.queryByText('Security')).not.toBeInTheDocument();
+  });
 });
@@ -0,0 +1,51 @@
+import React from 'react';
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+import { AuthConfigContext } from '../../src/context/AuthConfigContext';
+import { AuthStateCtx } from '../../src/context/AuthStateContext';
+import { RequireAuth } from '../../src/components/RequireAuth';
+
+function App({ status }: { status: 'bootstrapping' | 'authenticated' | 'unauthenticated' }) {
+  const state = { status, isAuthenticated: status === 'authenticated' } as any;
+  return (
+    <AuthConfigContext.Provider
+      value={{ baseUrl: '', bootScreen: () => <div>Booting</div> } as any}
+    >
+      <AuthStateCtx.Provider value={state}>
+        <MemoryRouter initialEntries={['/admin?tab=2']}>
+          <Routes>
+            <Route
+              path="/admin"
+              element={
+                <RequireAuth>
+                  <div>Admin</div>
+                </RequireAuth>
+              }
+            />
+            <Route path="/login" element={<div>Login</div>} />
+          </Routes>
+        </MemoryRouter>
+      </AuthStateCtx.Provider>
+    </AuthConfigContext.Provider>
+  );
+}
+
+describe('RequireAuth', () => {
+  it('renders children for signed-in users', () => {
+    render(<App status="authenticated" />);
+    expect(screen.getByText('Admin')).toBeInTheDocument();
+  });
+
+  it('shows the boot screen while bootstrapping', () => {
+    render(<App status="bootstrapping" />);
+    expect(screen.getByText('Booting')).toBeInTheDocument();
+  });
+
+  it('redirects to login and remembers the requested location', async () => {
+    sessionStorage.clear();
+    render(<App status="unauthenticated" />);
+    expect(await screen.findByText('Login')).toBeInTheDocument();
+    expect(sessionStorage.getItem('postLoginRedirect')).toBe('/admin?tab=2');
+  });
+});
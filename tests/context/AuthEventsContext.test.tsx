@@ -0,0 +1,35 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { act, render } from '@testing-library/react';
+import { AuthEventsCtx, useAuthEvents } from '../../src/context/AuthEventsContext';
+import { createAuthEventBus } from '../../src/utils/authEvents';
+
+function Listener({ onLogout }: { onLogout(reason: string): void }) {
+  useAuthEvents('logout', (e) => onLogout(e.reason));
+  return null;
+}
+
+describe('useAuthEvents', () => {
+  it('throws when used outside provider', () => {
+    expect(() => render(<Listener onLogout={() => {}} />)).toThrowError(
+      /useAuthEvents must be inside <AuthProvider>/,
+    );
+  });
+
+  it('subscribes for the lifetime of the component', () => {
+    const bus = createAuthEventBus();
+    const onLogout = vi.fn();
+    const { unmount } = render(
+      <AuthEventsCtx.Provider value={bus}>
+        <Listener onLogout={onLogout} />
+      </AuthEventsCtx.Provider>,
+    );
+
+    act(() => bus.emit('logout', { reason: 'user' }));
+    expect(onLogout).toHaveBeenCalledWith('user');
+
+    unmount();
+    bus.emit('logout', { reason: 'remote' });
+    expect(onLogout).toHaveBeenCalledTimes(1);
+  });
+});
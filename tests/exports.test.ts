@@ -11,9 +11,36 @@ import {
   useHasModule,
   useCan,
   RequirePermissions,
+  RequireAuth,
   RbacContext,
   RbacProvider,
   useGrant,
+  createMemoryTokenStorage,
+  createSessionTokenStorage,
+  createLocalTokenStorage,
+  createRememberMeTokenStorage,
+  createRecaptchaV3Challenge,
+  createHcaptchaChallenge,
+  createTurnstileChallenge,
+  createHoneypotChallenge,
+  createNoopChallenge,
+  createCookieTokenStorage,
+  useAuthEvents,
+  useAuthRoute,
+  bufferToBase64url,
+  base64urlToBuffer,
+  OAuthProviderButtons,
+  SignInPage,
+  SignUpPage,
+  VerifyEmailPage,
+  ForgotPasswordPage,
+  ResetPasswordPage,
+  GoogleCallbackPage,
+  OAuthCallbackPage,
+  MfaChallengePage,
+  MagicLinkPage,
+  OidcSignInPage,
+  OidcCallbackPage,
 } from '../src/main/app';
 
 import { ProfilePage } from '../src/components/ProfilePage';
@@ -26,9 +53,43 @@ describe('package exports', () => {
     expect(useHasModule).toBeDefined();
     expect(useCan).toBeDefined();
     expect(RequirePermissions).toBeDefined();
+    expect(RequireAuth).toBeDefined();
     expect(RbacContext).toBeDefined();
     expect(RbacProvider).toBeDefined();
     expect(useGrant).toBeDefined();
+    expect(createMemoryTokenStorage).toBeDefined();
+    expect(createSessionTokenStorage).toBeDefined();
+    expect(createLocalTokenStorage).toBeDefined();
+    expect(createRememberMeTokenStorage).toBeDefined();
+    expect(createRecaptchaV3Challenge).toBeDefined();
+    expect(createHcaptchaChallenge).toBeDefined();
+    expect(createTurnstileChallenge).toBeDefined();
+    expect(createHoneypotChallenge).toBeDefined();
+    expect(createNoopChallenge).toBeDefined();
+    expect(createCookieTokenStorage).toBeDefined();
+    expect(useAuthEvents).toBeDefined();
+    expect(useAuthRoute).toBeDefined();
+    expect(bufferToBase64url).toBeDefined();
+    expect(base64urlToBuffer).toBeDefined();
+    expect(OAuthProviderButtons).toBeDefined();
+  });
+
+  it('exports the built-in pages for headless setups', () => {
+    for (const page of [
+      SignInPage,
+      SignUpPage,
+      VerifyEmailPage,
+      ForgotPasswordPage,
+      ResetPasswordPage,
+      GoogleCallbackPage,
+      OAuthCallbackPage,
+      MfaChallengePage,
+      MagicLinkPage,
+      OidcSignInPage,
+      OidcCallbackPage,
+    ]) {
+      expect(page).toBeDefined();
+    }
   });
 
   it('exports ProfilePage from components', () => {
@@ -0,0 +1,100 @@
+import React from 'react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { useIdleTimeout } from '../../src/hooks/useIdleTimeout';
+
+function Probe({ enabled = true, onTimeout }: { enabled?: boolean; onTimeout(): void }) {
+  const { secondsLeft, stayActive } = useIdleTimeout({
+    enabled,
+    timeoutMs: 60_000,
+    warningMs: 10_000,
+    onTimeout,
+  });
+  return (
+    <div>
+      <span data-testid="left">{secondsLeft === null ? 'none' : secondsLeft}</span>
+      <button onClick={stayActive}>stay</button>
+    </div>
+  );
+}
+
+describe('useIdleTimeout', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('counts down during the warning window and then times out', () => {
+    const onTimeout = vi.fn();
+    render(<Probe onTimeout={onTimeout} />);
+
+    act(() => vi.advanceTimersByTime(49_000));
+    expect(screen.getByTestId('left').textContent).toBe('none');
+
+    act(() => vi.advanceTimersByTime(2_000));
+    expect(screen.getByTestId('left').textContent).toBe('9');
+
+    act(() => vi.advanceTimersByTime(9_000));
+    expect(onTimeout).toHaveBeenCalledTimes(1);
+    expect(screen.getByTestId('left').textContent).toBe('none');
+  });
+
+  it('resets on user activity before the warning', () => {
+    const onTimeout = vi.fn();
+    render(<Probe onTimeout={onTimeout} />);
+
+    act(() => vi.advanceTimersByTime(45_000));
+    fireEvent.keyDown(window);
+    act(() => vi.advanceTimersByTime(45_000));
+
+    expect(onTimeout).not.toHaveBeenCalled();
+    expect(screen.getByTestId('left').textContent).toBe('none');
+  });
+
+  it('ignores passive activity once warned; "stay" resets the timer', () => {
+    const onTimeout = vi.fn();
+    render(<Probe onTimeout={onTimeout} />);
+
+    act(() => vi.advanceTimersByTime(52_000));
+    fireEvent.mouseMove(window);
+    act(() => vi.advanceTimersByTime(1_000));
+    expect(screen.getByTestId('left').textContent).toBe('7');
+
+    fireEvent.click(screen.getByText('stay'));
+    expect(screen.getByTestId('left').textContent).toBe('none');
+
+    act(() => vi.advanceTimersByTime(30_000));
+    expect(onTimeout).not.toHaveBeenCalled();
+  });
+
+  it('closes the warning on activity in another tab', () => {
+    vi.stubGlobal('BroadcastChannel', undefined); // storage events deliver synchronously
+    const onTimeout = vi.fn();
+    render(<Probe onTimeout={onTimeout} />);
+
+    act(() => vi.advanceTimersByTime(52_000));
+    expect(screen.getByTestId('left').textContent).toBe('8');
+
+    act(() => {
+      window.dispatchEvent(
+        new StorageEvent('storage', {
+          key: 'authkit:idle:sync',
+          newValue: JSON.stringify({ msg: { type: 'activity', at: Date.now() }, nonce: 'n' }),
+        }),
+      );
+    });
+    expect(screen.getByTestId('left').textContent).toBe('none');
+    expect(onTimeout).not.toHaveBeenCalled();
+  });
+
+  it('does nothing when disabled', () => {
+    const onTimeout = vi.fn();
+    render(<Probe enabled={false} onTimeout={onTimeout} />);
+    act(() => vi.advanceTimersByTime(120_000));
+    expect(onTimeout).not.toHaveBeenCalled();
+  });
+});
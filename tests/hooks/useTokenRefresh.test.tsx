@@ -0,0 +1,82 @@
+import React from 'react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { act, render } from '@testing-library/react';
+import { useTokenRefresh } from '../../src/hooks/useTokenRefresh';
+
+function Probe(props: { expiresAt: number | null; refresh(): Promise<void> }) {
+  useTokenRefresh({ ...props, leewaySeconds: 30 });
+  return null;
+}
+
+function setVisibility(state: 'visible' | 'hidden') {
+  Object.defineProperty(document, 'visibilityState', { value: state, configurable: true });
+}
+
+describe('useTokenRefresh', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    setVisibility('visible');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('refreshes leewaySeconds before expiry', async () => {
+    const refresh = vi.fn().mockResolvedValue(undefined);
+    render(<Probe expiresAt={Date.now() + 90_000} refresh={refresh} />);
+
+    await act(() => vi.advanceTimersByTimeAsync(59_000));
+    expect(refresh).not.toHaveBeenCalled();
+
+    await act(() => vi.advanceTimersByTimeAsync(1_000));
+    expect(refresh).toHaveBeenCalledTimes(1);
+  });
+
+  it('does nothing without an expiry', async () => {
+    const refresh = vi.fn().mockResolvedValue(undefined);
+    render(<Probe expiresAt={null} refresh={refresh} />);
+    await act(() => vi.advanceTimersByTimeAsync(600_000));
+    expect(refresh).not.toHaveBeenCalled();
+  });
+
+  it('waits for the tab to become visible before refreshing', async () => {
+    const refresh = vi.fn().mockResolvedValue(undefined);
+    setVisibility('hidden');
+    render(<Probe expiresAt={Date.now() + 10_000} refresh={refresh} />);
+
+    await act(() => vi.advanceTimersByTimeAsync(1_000));
+    expect(refresh).not.toHaveBeenCalled();
+
+    setVisibility('visible');
+    await act(async () => {
+      document.dispatchEvent(new Event('visibilitychange'));
+    });
+    expect(refresh).toHaveBeenCalledTimes(1);
+  });
+
+  it('backs off after a transient failure', async () => {
+    const refresh = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('network'))
+      .mockResolvedValue(undefined);
+    render(<Probe expiresAt={Date.now() + 30_000} refresh={refresh} />);
+
+    await act(() => vi.advanceTimersByTimeAsync(0));
+    expect(refresh).toHaveBeenCalledTimes(1);
+
+    await act(() => vi.advanceTimersByTimeAsync(4_999));
+    expect(refresh).toHaveBeenCalledTimes(1);
+
+    await act(() => vi.advanceTimersByTimeAsync(1));
+    expect(refresh).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops retrying when the refresh cookie is rejected', async () => {
+    const refresh = vi.fn().mockRejectedValue({ response: { status: 401 } });
+    render(<Probe expiresAt={Date.now() + 30_000} refresh={refresh} />);
+
+    await act(() => vi.advanceTimersByTimeAsync(600_000));
+    expect(refresh).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,6 +1,6 @@
 import React from 'react';
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { act, render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { MemoryRouter, Route, Routes } from 'react-router-dom';
 import { AuthConfigContext } from '../../../src/context/AuthConfigContext';
 import { AuthStateCtx } from '../../../src/context/AuthStateContext';
@@ -18,9 +18,16 @@ vi.mock('../../../src/assets/icons/microsoft-svgrepo-com.svg', () => ({
 import { ForgotPasswordPage } from '../../../src/pages/auth/ForgotPasswordPage';
 import { ResetPasswordPage } from '../../../src/pages/auth/ResetPasswordPage';
 import { VerifyEmailPage } from '../../../src/pages/auth/VerifyEmailPage';
-import { GoogleCallbackPage } from '../../../src/pages/auth/GoogleCallbackPage';
+import { OAuthCallbackPage } from '../../../src/pages/auth/OAuthCallbackPage';
+import { MagicLinkPage } from '../../../src/pages/auth/MagicLinkPage';
+import { OidcCallbackPage } from '../../../src/pages/auth/OidcCallbackPage';
+import { MfaChallengePage } from '../../../src/pages/auth/MfaChallengePage';
 import { SignInPage } from '../../../src/pages/auth/SignInPage';
 import { SignUpPage } from '../../../src/pages/auth/SignUpPage';
+import {
+  createHoneypotChallenge,
+  createNoopChallenge,
+} from '../../../src/utils/challengeProviders';
 
 const baseConfig = {
   baseUrl: 'https://api.example.com',
@@ -42,6 +49,8 @@ const mockAuthState = {
   accessToken: null,
   api: mockApi,
   login: vi.fn(),
+  loginWithPasskey: vi.fn(),
+  loginWithPasswordless: vi.fn(),
   logout: vi.fn(),
   setUser: vi.fn(),
 };
@@ -104,6 +113,78 @@ describe('ForgotPasswordPage', () => {
     await waitFor(() => expect(screen.getByRole('alert')).toBeInTheDocument());
   });
 
+  it('says how long a locked account must wait instead of allowing resubmission', async () => {
+    mockApi.post.mockRejectedValueOnce({
+      isAxiosError: true,
+      response: {
+        status: 423,
+        headers: { 'retry-after': '300' },
+        data: { code: 'ACCOUNT_LOCKED' },
+      },
+    });
+    wrap(<ForgotPasswordPage />);
+
+    fireEvent.change(screen.getByPlaceholderText('form.emailPlaceholder'), {
+      target: { value: 'test@example.com' },
+    });
+    fireEvent.click(screen.getByText('Send Reset Link'));
+
+    expect(await screen.findByRole('status')).toHaveTextContent(
+      'Your account is temporarily locked. Try again in 5:00.',
+    );
+    expect(screen.getByText('Send Reset Link').closest('button')).toBeDisabled();
+  });
+
+  it('posts to a configured forgotPassword endpoint', async () => {
+    mockApi.post.mockResolvedValueOnce({ data: {} });
+    wrap(<ForgotPasswordPage />, {
+      config: {
+        ...baseConfig,
+        endpoints: {
+          forgotPassword: {
+            path: '/v2/password/forgot',
+            transformRequest: (d: Record<string, unknown>) => ({ login: d.email }),
+          },
+        },
+      } as any,
+    });
+
+    fireEvent.change(screen.getByPlaceholderText('form.emailPlaceholder'), {
+      target: { value: 'test@example.com' },
+    });
+    fireEvent.click(screen.getByText('Send Reset Link'));
+
+    await waitFor(() =>
+      expect(mockApi.post).toHaveBeenCalledWith(
+        '/v2/password/forgot',
+        { login: 'test@example.com' },
+        undefined,
+      ),
+    );
+  });
+
+  it('sends the challenge token in the configured header', async () => {
+    mockApi.post.mockResolvedValueOnce({ data: {} });
+    const config = {
+      ...baseConfig,
+      challengeProvider: createNoopChallenge('tok-1', { header: 'X-Captcha-Token' }),
+    };
+    wrap(<ForgotPasswordPage />, { config: config as any });
+
+    fireEvent.change(screen.getByPlaceholderText('form.emailPlaceholder'), {
+      target: { value: 'test@example.com' },
+    });
+    fireEvent.click(screen.getByText('Send Reset Link'));
+
+    await waitFor(() =>
+      expect(mockApi.post).toHaveBeenCalledWith(
+        '/api/auth/forgot-password',
+        { email: 'test@example.com' },
+        { headers: { 'X-Captcha-Token': 'tok-1' } },
+      ),
+    );
+  });
+
   it('renders brand name when no logoUrl is provided', () => {
     wrap(<ForgotPasswordPage />, { config: { ...baseConfig, brandName: 'TestBrand' } as any });
     expect(screen.getByText('TestBrand')).toBeInTheDocument();
@@ -181,23 +262,237 @@ describe('VerifyEmailPage', () => {
   });
 });
 
-// ─── GoogleCallbackPage ────────────────────────────────────────────────────
+// ─── OAuthCallbackPage ─────────────────────────────────────────────────────
+
+describe('OAuthCallbackPage', () => {
+  const loginWithOAuth = vi.fn();
+  const authState = { ...mockAuthState, loginWithOAuth } as any;
 
-describe('GoogleCallbackPage', () => {
-  it('renders loading text', () => {
-    // Prevent real window.location.replace
-    Object.defineProperty(window, 'location', {
-      value: { ...window.location, replace: vi.fn(), search: '?accessToken=tok&refreshToken=ref' },
-      writable: true,
+  beforeEach(() => {
+    loginWithOAuth.mockReset().mockResolvedValue(undefined);
+    sessionStorage.setItem('oauthState', 'st4te');
+  });
+  afterEach(() => {
+    vi.restoreAllMocks();
+    sessionStorage.clear();
+  });
+
+  it('signs in with the token from the fragment and strips it from history', async () => {
+    const replaceState = vi.spyOn(window.history, 'replaceState');
+    wrap(
+      <React.StrictMode>
+        <OAuthCallbackPage />
+      </React.StrictMode>,
+      { initialPath: '/oauth/github/callback#accessToken=tok&state=st4te', authState },
+    );
+    await waitFor(() => expect(loginWithOAuth).toHaveBeenCalledWith({ accessToken: 'tok' }));
+    expect(loginWithOAuth).toHaveBeenCalledTimes(1);
+    expect(replaceState.mock.calls[0].slice(1)).toEqual(['', window.location.pathname]);
+    expect(sessionStorage.getItem('oauthState')).toBeNull();
+  });
+
+  it('exchanges a one-time code', async () => {
+    wrap(<OAuthCallbackPage />, {
+      initialPath: '/oauth/google/callback?code=otc&state=st4te',
+      authState,
+    });
+    await waitFor(() => expect(loginWithOAuth).toHaveBeenCalledWith({ code: 'otc' }));
+  });
+
+  it('rejects a callback whose state was not issued by this tab', async () => {
+    wrap(<OAuthCallbackPage />, {
+      initialPath: '/oauth/google/callback#accessToken=tok&state=forged',
+      authState,
     });
+    expect(await screen.findByRole('alert')).toHaveTextContent(
+      'has expired or was started elsewhere',
+    );
+    expect(loginWithOAuth).not.toHaveBeenCalled();
+  });
+
+  it('reports back to the opener when running in the sign-in popup', async () => {
+    const postMessage = vi.fn();
+    vi.spyOn(window, 'close').mockImplementation(() => {});
+    Object.defineProperty(window, 'opener', { value: { postMessage }, configurable: true });
+    window.name = 'authkit-oauth';
+
+    wrap(<OAuthCallbackPage />, {
+      initialPath: '/oauth/google/callback#accessToken=tok&state=st4te',
+      authState,
+    });
+
+    await waitFor(() =>
+      expect(postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ params: { accessToken: 'tok', state: 'st4te' } }),
+        window.location.origin,
+      ),
+    );
+    expect(loginWithOAuth).not.toHaveBeenCalled();
+    window.name = '';
+    Object.defineProperty(window, 'opener', { value: null, configurable: true });
+  });
+
+  it('shows the provider error with a retry', async () => {
+    wrap(<OAuthCallbackPage />, {
+      initialPath: '/oauth/google/callback?error=access_denied&error_description=Consent+declined',
+      authState,
+    });
+    expect(await screen.findByRole('alert')).toHaveTextContent('Consent declined');
+    expect(screen.getByText('Try again')).toBeInTheDocument();
+    expect(loginWithOAuth).not.toHaveBeenCalled();
+  });
+
+  it('returns a connect-account round-trip to where it started without signing in', async () => {
+    sessionStorage.setItem('oauthLink', 'github');
+    sessionStorage.setItem('postLoginRedirect', '/profile');
+    wrap(<OAuthCallbackPage />, {
+      initialPath: '/oauth/github/callback?error=access_denied&state=st4te',
+      authState,
+    });
+    await waitFor(() => expect(sessionStorage.getItem('postLoginRedirect')).toBeNull());
+    expect(sessionStorage.getItem('oauthLinkError')).toBe('access_denied');
+    expect(sessionStorage.getItem('oauthLink')).toBeNull();
+    expect(loginWithOAuth).not.toHaveBeenCalled();
+  });
+});
+
+// ─── MfaChallengePage ──────────────────────────────────────────────────────
+
+describe('MfaChallengePage', () => {
+  const verifyMfa = vi.fn();
+  const challengeState = {
+    ...mockAuthState,
+    mfaChallenge: { mfaToken: 'mfa-1', methods: ['totp', 'recovery'] },
+    verifyMfa,
+  };
+
+  beforeEach(() => verifyMfa.mockReset());
+
+  it('sends the TOTP code and trust-device choice', async () => {
+    verifyMfa.mockResolvedValueOnce(undefined);
+    wrap(<MfaChallengePage />, { authState: challengeState as any });
+
+    const verify = screen.getByRole('button', { name: 'Verify' });
+    expect(verify).toBeDisabled();
+    fireEvent.paste(screen.getByLabelText('Verification code 1'), {
+      clipboardData: { getData: () => '123456' },
+    });
+    fireEvent.click(screen.getByLabelText(/Trust this device/));
+    fireEvent.click(verify);
+
+    await waitFor(() =>
+      expect(verifyMfa).toHaveBeenCalledWith('123456', { method: 'totp', trustDevice: true }),
+    );
+  });
+
+  it('accepts a recovery code and shows backend errors', async () => {
+    verifyMfa.mockRejectedValueOnce(new Error('Invalid code'));
+    wrap(<MfaChallengePage />, { authState: challengeState as any });
+
+    fireEvent.click(screen.getByText('Use a recovery code instead'));
+    fireEvent.change(screen.getByPlaceholderText('xxxx-xxxx'), { target: { value: 'abcd-efgh' } });
+    fireEvent.submit(document.querySelector('form')!);
+
+    await waitFor(() =>
+      expect(verifyMfa).toHaveBeenCalledWith('abcd-efgh', {
+        method: 'recovery',
+        trustDevice: false,
+      }),
+    );
+    expect(await screen.findByText('Invalid code')).toBeInTheDocument();
+  });
+
+  it('returns to sign-in when there is no pending challenge', () => {
     render(
-      <MemoryRouter initialEntries={['/?accessToken=tok&refreshToken=ref']}>
-        <Routes>
-          <Route path="*" element={<GoogleCallbackPage />} />
-        </Routes>
+      <MemoryRouter initialEntries={['/mfa']}>
+        <AuthConfigContext.Provider value={baseConfig as any}>
+          <AuthStateCtx.Provider value={{ ...mockAuthState, mfaChallenge: null } as any}>
+            <Routes>
+              <Route path="/mfa" element={<MfaChallengePage />} />
+              <Route path="/login" element={<div>Login page</div>} />
+            </Routes>
+          </AuthStateCtx.Provider>
+        </AuthConfigContext.Provider>
       </MemoryRouter>,
     );
-    expect(screen.getByText(/Finishing Google sign-in/i)).toBeInTheDocument();
+    expect(screen.getByText('Login page')).toBeInTheDocument();
+  });
+});
+
+// ─── MagicLinkPage ─────────────────────────────────────────────────────────
+
+describe('MagicLinkPage', () => {
+  beforeEach(() => mockAuthState.loginWithPasswordless.mockReset().mockResolvedValue(undefined));
+
+  it('signs in with the token from the link exactly once', async () => {
+    wrap(
+      <React.StrictMode>
+        <MagicLinkPage />
+      </React.StrictMode>,
+      { initialPath: '/magic-link?token=abc' },
+    );
+    expect(screen.getByText('Signing you in…')).toBeInTheDocument();
+    await waitFor(() =>
+      expect(mockAuthState.loginWithPasswordless).toHaveBeenCalledWith({ token: 'abc' }),
+    );
+    expect(mockAuthState.loginWithPasswordless).toHaveBeenCalledTimes(1);
+  });
+
+  it('removes the spent token from the address bar', async () => {
+    const replaceState = vi.spyOn(window.history, 'replaceState');
+    wrap(<MagicLinkPage />, { initialPath: '/magic-link?token=abc' });
+    await waitFor(() => expect(mockAuthState.loginWithPasswordless).toHaveBeenCalled());
+    expect(replaceState.mock.calls[0].slice(1)).toEqual(['', window.location.pathname]);
+    replaceState.mockRestore();
+  });
+
+  it('explains an expired or reused link', async () => {
+    mockAuthState.loginWithPasswordless.mockRejectedValueOnce({
+      isAxiosError: true,
+      message: 'Gone',
+      response: { data: { message: 'Link expired' } },
+    });
+    wrap(<MagicLinkPage />, { initialPath: '/magic-link?token=old' });
+    expect(await screen.findByRole('alert')).toHaveTextContent('Link expired');
+    expect(screen.getByText('Back to Sign In')).toBeInTheDocument();
+  });
+
+  it('does not call the API without a token', () => {
+    wrap(<MagicLinkPage />, { initialPath: '/magic-link' });
+    expect(screen.getByRole('alert')).toHaveTextContent('This sign-in link is incomplete.');
+    expect(mockAuthState.loginWithPasswordless).not.toHaveBeenCalled();
+  });
+});
+
+// ─── OidcCallbackPage ──────────────────────────────────────────────────────
+
+describe('OidcCallbackPage', () => {
+  it('redeems the callback once and shows why it failed', async () => {
+    const handleOidcCallback = vi.fn().mockRejectedValue(new Error('OIDC state mismatch'));
+    wrap(
+      <React.StrictMode>
+        <OidcCallbackPage />
+      </React.StrictMode>,
+      {
+        initialPath: '/oidc/callback?code=c&state=s',
+        authState: { ...mockAuthState, handleOidcCallback } as any,
+      },
+    );
+    expect(await screen.findByRole('alert')).toHaveTextContent('OIDC state mismatch');
+    expect(handleOidcCallback).toHaveBeenCalledTimes(1);
+    expect(handleOidcCallback).toHaveBeenCalledWith('?code=c&state=s');
+  });
+
+  it('removes the spent code and state from the address bar', async () => {
+    const replaceState = vi.spyOn(window.history, 'replaceState');
+    const handleOidcCallback = vi.fn().mockResolvedValue(undefined);
+    wrap(<OidcCallbackPage />, {
+      initialPath: '/oidc/callback?code=c&state=s',
+      authState: { ...mockAuthState, handleOidcCallback } as any,
+    });
+    await waitFor(() => expect(handleOidcCallback).toHaveBeenCalled());
+    expect(replaceState.mock.calls[0].slice(1)).toEqual(['', window.location.pathname]);
+    replaceState.mockRestore();
   });
 });
 
@@ -208,6 +503,234 @@ describe('SignInPage', () => {
     mockAuthState.login.mockReset();
   });
 
+  it('sends the "Remember me" choice with the credentials', async () => {
+    mockAuthState.login.mockResolvedValue(undefined);
+    const config = { ...baseConfig, rememberMe: true };
+    wrap(<SignInPage {...(config as any)} />, { config });
+    fireEvent.change(screen.getByPlaceholderText('name@company.com'), {
+      target: { value: 'a@b.co' },
+    });
+    fireEvent.change(screen.getByPlaceholderText('form.passwordPlaceholder'), {
+      target: { value: 'pw' },
+    });
+    fireEvent.click(screen.getByLabelText('Remember me'));
+    fireEvent.submit(document.querySelector('form')!);
+    await waitFor(() =>
+      expect(mockAuthState.login).toHaveBeenCalledWith({
+        email: 'a@b.co',
+        password: 'pw',
+        rememberMe: true,
+      }),
+    );
+  });
+
+  it('counts down a 429 Retry-After before allowing another attempt', async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    mockAuthState.login.mockRejectedValueOnce({
+      isAxiosError: true,
+      response: { status: 429, headers: { 'retry-after': '3' }, data: {} },
+    });
+    wrap(<SignInPage {...(baseConfig as any)} />);
+    fireEvent.submit(document.querySelector('form')!);
+
+    expect(await screen.findByRole('status')).toHaveTextContent(
+      'Too many attempts. Try again in 3s.',
+    );
+    const submit = screen.getByText('SignInPage.signIn', { selector: 'button' });
+    expect(submit).toBeDisabled();
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+
+    await act(() => vi.advanceTimersByTimeAsync(1000));
+    expect(screen.getByRole('status')).toHaveTextContent('Try again in 2s.');
+    await act(() => vi.advanceTimersByTimeAsync(2000));
+    expect(screen.queryByRole('status')).not.toBeInTheDocument();
+    expect(submit).toBeEnabled();
+    vi.useRealTimers();
+  });
+
+  it('still blocks with the default wait when Retry-After is already over', async () => {
+    mockAuthState.login.mockRejectedValueOnce({
+      isAxiosError: true,
+      response: { status: 429, headers: { 'retry-after': '0' }, data: {} },
+    });
+    wrap(<SignInPage {...(baseConfig as any)} />);
+    fireEvent.submit(document.querySelector('form')!);
+
+    expect(await screen.findByRole('status')).toHaveTextContent(
+      'Too many attempts. Try again in 1:00.',
+    );
+    expect(screen.getByText('SignInPage.signIn', { selector: 'button' })).toBeDisabled();
+  });
+
+  describe('with passkeys enabled', () => {
+    const config = { ...baseConfig, passkeys: true };
+
+    function stubWebAuthn(conditional: boolean) {
+      vi.stubGlobal(
+        'PublicKeyCredential',
+        Object.assign(function PublicKeyCredential() {}, {
+          isConditionalMediationAvailable: () => Promise.resolve(conditional),
+        }),
+      );
+      Object.defineProperty(navigator, 'credentials', { value: {}, configurable: true });
+    }
+
+    beforeEach(() => mockAuthState.loginWithPasskey.mockReset().mockResolvedValue(undefined));
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      Object.defineProperty(navigator, 'credentials', { value: undefined, configurable: true });
+    });
+
+    it('signs in with a passkey from the button', async () => {
+      stubWebAuthn(false);
+      wrap(<SignInPage {...(config as any)} />, { config });
+      fireEvent.click(screen.getByText('Sign in with a passkey'));
+      await waitFor(() => expect(mockAuthState.loginWithPasskey).toHaveBeenCalledWith());
+    });
+
+    it('starts a conditional request for autofill when available', async () => {
+      stubWebAuthn(true);
+      wrap(<SignInPage {...(config as any)} />, { config });
+      await waitFor(() =>
+        expect(mockAuthState.loginWithPasskey).toHaveBeenCalledWith(
+          expect.objectContaining({ conditional: true }),
+        ),
+      );
+      expect(screen.getByPlaceholderText('name@company.com')).toHaveAttribute(
+        'autocomplete',
+        'username webauthn',
+      );
+    });
+
+    it('hides the button when the browser lacks WebAuthn', () => {
+      wrap(<SignInPage {...(config as any)} />, { config });
+      expect(screen.queryByText('Sign in with a passkey')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('with passwordless enabled', () => {
+    beforeEach(() => {
+      mockApi.post.mockReset().mockResolvedValue({ data: { expiresIn: 600 } });
+      mockAuthState.loginWithPasswordless.mockReset().mockResolvedValue(undefined);
+    });
+    afterEach(() => vi.useRealTimers());
+
+    function requestEmail(config: any) {
+      wrap(<SignInPage {...config} />, { config });
+      fireEvent.click(screen.getByText(/^Sign in with an email/));
+      fireEvent.change(screen.getByPlaceholderText('name@company.com'), {
+        target: { value: 'user@example.com' },
+      });
+      fireEvent.submit(document.querySelector('form')!);
+    }
+
+    it('emails a magic link pointing at the magic-link route', async () => {
+      requestEmail({ ...baseConfig, passwordless: { method: 'link' } });
+      expect(await screen.findByText(/We sent a sign-in link to user@example.com/)).toBeTruthy();
+      expect(mockApi.post).toHaveBeenCalledWith('/api/auth/passwordless/start', {
+        email: 'user@example.com',
+        method: 'link',
+        redirectUrl: `${window.location.origin}/magic-link`,
+      });
+      expect(screen.getByText('It expires in 10 minutes.')).toBeInTheDocument();
+    });
+
+    it('signs in with the emailed code', async () => {
+      requestEmail({ ...baseConfig, passwordless: { method: 'code' } });
+      fireEvent.change(await screen.findByPlaceholderText('123456'), {
+        target: { value: '12 34 56' },
+      });
+      fireEvent.submit(document.querySelector('form')!);
+      await waitFor(() =>
+        expect(mockAuthState.loginWithPasswordless).toHaveBeenCalledWith({
+          email: 'user@example.com',
+          code: '123456',
+        }),
+      );
+    });
+
+    it('holds resend back for the cooldown', async () => {
+      vi.useFakeTimers({ shouldAdvanceTime: true });
+      requestEmail({ ...baseConfig, passwordless: { method: 'code', resendCooldownSeconds: 5 } });
+      const resend = await screen.findByText('Resend in 5s');
+      expect(resend).toBeDisabled();
+
+      await act(() => vi.advanceTimersByTimeAsync(5000));
+      fireEvent.click(screen.getByText('Resend email'));
+      await waitFor(() => expect(mockApi.post).toHaveBeenCalledTimes(2));
+    });
+
+    it('follows the server Retry-After when the email request is throttled', async () => {
+      mockApi.post.mockReset().mockRejectedValueOnce({
+        isAxiosError: true,
+        response: { status: 429, headers: { 'retry-after': '90' }, data: {} },
+      });
+      requestEmail({ ...baseConfig, passwordless: { method: 'code' } });
+
+      expect(await screen.findByRole('status')).toHaveTextContent(
+        'Too many attempts. Try again in 1:30.',
+      );
+      expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+      expect(screen.getByText('Email me a sign-in code')).toBeDisabled();
+    });
+
+    it('goes back to the password form', () => {
+      wrap(<SignInPage {...(baseConfig as any)} />, {
+        config: { ...baseConfig, passwordless: { method: 'code' } } as any,
+      });
+      fireEvent.click(screen.getByText('Sign in with an emailed code'));
+      fireEvent.click(screen.getByText('Sign in with your password instead'));
+      expect(screen.getByPlaceholderText('form.passwordPlaceholder')).toBeInTheDocument();
+    });
+  });
+
+  describe('in OAuth popup mode', () => {
+    const config = { ...baseConfig, oauthProviders: ['github'], oauthMode: 'popup' } as any;
+    const realLocation = window.location;
+    const loginWithOAuth = vi.fn().mockResolvedValue(undefined);
+
+    afterEach(() => {
+      Object.defineProperty(window, 'location', { value: realLocation, writable: true });
+      vi.restoreAllMocks();
+      document.body.innerHTML = '';
+    });
+
+    it('signs in from the popup result without leaving the page', async () => {
+      const frame = document.createElement('iframe');
+      document.body.appendChild(frame);
+      const popup = frame.contentWindow!;
+      vi.spyOn(window, 'open').mockReturnValue(popup);
+      wrap(<SignInPage {...config} />, {
+        config,
+        authState: { ...mockAuthState, loginWithOAuth } as any,
+      });
+
+      fireEvent.click(screen.getByAltText('GitHub'));
+      const state = sessionStorage.getItem('oauthState')!;
+      window.dispatchEvent(
+        new MessageEvent('message', {
+          data: { type: 'authkit:oauth-callback', params: { accessToken: 'tok', state } },
+          origin: window.location.origin,
+          source: popup,
+        }),
+      );
+
+      await waitFor(() => expect(loginWithOAuth).toHaveBeenCalledWith({ accessToken: 'tok' }));
+    });
+
+    it('falls back to a full redirect when the popup is blocked', () => {
+      vi.spyOn(window, 'open').mockReturnValue(null);
+      Object.defineProperty(window, 'location', {
+        value: { ...realLocation, href: realLocation.href },
+        writable: true,
+      });
+      wrap(<SignInPage {...config} />, { config });
+
+      fireEvent.click(screen.getByAltText('GitHub'));
+      expect(window.location.href).toMatch(/^https:\/\/api\.example\.com\/api\/auth\/github\?/);
+    });
+  });
+
   it('renders sign in form', () => {
     wrap(<SignInPage {...(baseConfig as any)} />);
     expect(screen.getAllByText('SignInPage.signIn').length).toBeGreaterThan(0);
@@ -260,6 +783,17 @@ describe('SignInPage', () => {
     // Both google and microsoft icon imgs should be present
     expect(imgs.length).toBeGreaterThan(1);
   });
+
+  it('renders registry providers, including custom ones', () => {
+    wrap(<SignInPage {...(baseConfig as any)} />, {
+      config: {
+        ...baseConfig,
+        oauthProviders: ['github', { id: 'okta', label: 'Okta', icon: 'okta.svg' }],
+      } as any,
+    });
+    expect(screen.getByAltText('GitHub')).toBeInTheDocument();
+    expect(screen.getByAltText('Okta')).toHaveAttribute('src', 'okta.svg');
+  });
 });
 
 // ─── SignUpPage ────────────────────────────────────────────────────────────
@@ -294,4 +828,62 @@ describe('SignUpPage', () => {
     });
     expect(screen.getByPlaceholderText('Your company')).toBeInTheDocument();
   });
+
+  it('blocks sign-up while the backend is throttling', async () => {
+    mockApi.post.mockRejectedValueOnce({
+      isAxiosError: true,
+      response: { status: 429, headers: {}, data: { message: 'Slow down' } },
+    });
+    wrap(<SignUpPage />);
+    fireEvent.submit(document.querySelector('form')!);
+
+    expect(await screen.findByRole('status')).toHaveTextContent('Try again in 1:00.');
+    expect(screen.getByText('Sign up', { selector: 'button' })).toBeDisabled();
+  });
+
+  it('adds the challenge token to the registration payload', async () => {
+    mockApi.post.mockResolvedValueOnce({ data: { emailSent: true } });
+    const getToken = vi.fn().mockResolvedValue('captcha-ok');
+    wrap(<SignUpPage />, { config: { ...baseConfig, challengeProvider: { getToken } } as any });
+    fireEvent.submit(document.querySelector('form')!);
+
+    await waitFor(() =>
+      expect(mockApi.post).toHaveBeenCalledWith(
+        '/api/auth/register',
+        expect.objectContaining({ captchaToken: 'captcha-ok' }),
+        undefined,
+      ),
+    );
+    expect(getToken).toHaveBeenCalledWith('signup');
+  });
+
+  it('renders the honeypot field and sends what bots type into it', async () => {
+    mockApi.post.mockResolvedValueOnce({ data: { emailSent: true } });
+    wrap(<SignUpPage />, {
+      config: { ...baseConfig, challengeProvider: createHoneypotChallenge() } as any,
+    });
+    fireEvent.change(document.querySelector('input[name="website"]')!, {
+      target: { value: 'http://spam.example' },
+    });
+    fireEvent.submit(document.querySelector('form')!);
+
+    await waitFor(() =>
+      expect(mockApi.post.mock.calls[0][1]).toMatchObject({ website: 'http://spam.example' }),
+    );
+  });
+
+  it('sends an empty honeypot again once the filled form is gone', async () => {
+    mockApi.post.mockResolvedValue({ data: { emailSent: true } });
+    const config = { ...baseConfig, challengeProvider: createHoneypotChallenge() } as any;
+    const first = wrap(<SignUpPage />, { config });
+    fireEvent.change(document.querySelector('input[name="website"]')!, {
+      target: { value: 'autofilled' },
+    });
+    first.unmount();
+
+    wrap(<SignUpPage />, { config });
+    fireEvent.submit(document.querySelector('form')!);
+
+    await waitFor(() => expect(mockApi.post.mock.calls[0][1]).toMatchObject({ website: '' }));
+  });
 });
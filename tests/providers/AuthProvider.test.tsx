@@ -1,7 +1,7 @@
 import React from 'react';
-import { describe, it, expect, vi } from 'vitest';
-import { MemoryRouter, Routes, Route } from 'react-router-dom';
-import { render, screen } from '@testing-library/react';
+import { describe, it, expect, vi, afterEach, beforeEach } from 'vitest';
+import { MemoryRouter, Routes, Route, useLocation } from 'react-router-dom';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
 
 // Mock translator to return keys or defaults for stable assertions
 vi.mock('@ciscode/ui-translate-core', () => ({
@@ -9,31 +9,50 @@ vi.mock('@ciscode/ui-translate-core', () => ({
 }));
 
 // Mock JWT decode to avoid requiring real tokens
+const jwt = vi.hoisted(() => ({ expired: false, malformed: false, decoded: [] as string[] }));
 vi.mock('../../src/utils/jwtHelpers', () => ({
-  decodeToken: () => ({
-    id: 'u',
-    email: '',
-    roles: [],
-    permissions: [],
-    modules: [],
-    tenantId: '',
-  }),
+  decodeToken: (token: string) => {
+    jwt.decoded.push(token);
+    if (jwt.malformed) throw new Error('Invalid token specified');
+    return {
+      id: 'u',
+      email: '',
+      roles: [],
+      permissions: [],
+      modules: [],
+      tenantId: '',
+    };
+  },
+  getTokenExpiry: () => null,
+  isTokenExpired: () => jwt.expired,
 }));
 
+// OIDC protocol details are covered in tests/utils/oidc.test.ts
+const oidc = vi.hoisted(() => ({
+  createOidcAuthorizeUrl: vi.fn(),
+  completeOidcLogin: vi.fn(),
+  refreshOidcTokens: vi.fn(),
+  createOidcLogoutUrl: vi.fn(),
+}));
+vi.mock('../../src/utils/oidc', () => oidc);
+
 import axios from 'axios';
 import { AuthProvider } from '../../src/providers/AuthProvider';
+import { useAuthState } from '../../src/context/AuthStateContext';
+import { createNoopChallenge } from '../../src/utils/challengeProviders';
+import { createMemoryTokenStorage } from '../../src/utils/tokenStorage';
 
 const config = {
   baseUrl: 'https://api.example.com',
   colors: { bg: 'bg-sky-500', text: 'text-white', border: 'border-sky-500' },
 };
 
-function renderWithRouter(initialPath: string, children: React.ReactNode) {
+function renderWithRouter(initialPath: string, children: React.ReactNode, cfg = config) {
   return render(
     <MemoryRouter initialEntries={[initialPath]}>
       {/* AuthProvider manages its own nested <Routes /> */}
       <Routes>
-        <Route path="/*" element={<AuthProvider config={config}>{children}</AuthProvider>} />
+        <Route path="/*" element={<AuthProvider config={cfg}>{children}</AuthProvider>} />
       </Routes>
     </MemoryRouter>,
   );
@@ -59,12 +78,508 @@ describe('AuthProvider routing', () => {
     expect(screen.getByTestId('protected')).toBeInTheDocument();
   });
 
-  it('redirects /protected to /login when not authenticated', () => {
+  it('redirects /protected to /login when not authenticated', async () => {
     localStorage.removeItem('authToken');
     vi.spyOn(axios, 'post').mockRejectedValue(new Error('no refresh in tests'));
     renderWithRouter('/protected', <div data-testid="protected">Protected</div>);
-    // After RequireAuth, user should be on login screen
-    expect(screen.getAllByText('SignInPage.signIn').length).toBeGreaterThan(0);
+    // After the bootstrap refresh fails, RequireAuth sends the user to the login screen
+    expect((await screen.findAllByText('SignInPage.signIn')).length).toBeGreaterThan(0);
     expect(screen.queryByTestId('protected')).not.toBeInTheDocument();
   });
+
+  it('shows the boot screen instead of redirecting while bootstrapping', async () => {
+    localStorage.removeItem('authToken');
+    let settle: (v: unknown) => void = () => {};
+    vi.spyOn(axios, 'post').mockReturnValue(new Promise((resolve) => (settle = resolve)));
+    const BootScreen = () => <div data-testid="boot">Loading…</div>;
+    renderWithRouter('/deep/link', <div data-testid="protected">Protected</div>, {
+      ...config,
+      bootScreen: BootScreen,
+    });
+
+    expect(screen.getByTestId('boot')).toBeInTheDocument();
+    expect(screen.queryAllByText('SignInPage.signIn')).toHaveLength(0);
+
+    settle({ data: { accessToken: 'tok' } });
+    expect(await screen.findByTestId('protected')).toBeInTheDocument();
+  });
+
+  it('keeps a deep link through the StrictMode double bootstrap', async () => {
+    localStorage.removeItem('authToken');
+    let settle: (v: unknown) => void = () => {};
+    const post = vi
+      .spyOn(axios, 'post')
+      .mockReturnValue(new Promise((resolve) => (settle = resolve)));
+    render(
+      <React.StrictMode>
+        <MemoryRouter initialEntries={['/deep/link']}>
+          <Routes>
+            <Route
+              path="/*"
+              element={
+                <AuthProvider config={config}>
+                  <div data-testid="protected">Protected</div>
+                </AuthProvider>
+              }
+            />
+          </Routes>
+        </MemoryRouter>
+      </React.StrictMode>,
+    );
+
+    settle({ data: { accessToken: 'tok' } });
+    expect(await screen.findByTestId('protected')).toBeInTheDocument();
+    expect(screen.queryAllByText('SignInPage.signIn')).toHaveLength(0);
+    expect(post).toHaveBeenCalledTimes(1);
+  });
+
+  it('reads the token from a configured tokenStorage instead of localStorage', () => {
+    localStorage.removeItem('authToken');
+    vi.spyOn(axios, 'post').mockRejectedValue(new Error('no refresh in tests'));
+    const tokenStorage = createMemoryTokenStorage();
+    tokenStorage.set('authToken', 'memory-token');
+    renderWithRouter('/protected', <div data-testid="protected">Protected</div>, {
+      ...config,
+      tokenStorage,
+    });
+    expect(screen.getByTestId('protected')).toBeInTheDocument();
+    expect(localStorage.getItem('authToken')).toBeNull();
+  });
+
+  it('calls onLogin when a stored session is restored', async () => {
+    localStorage.setItem('authToken', 'dummy-token');
+    vi.spyOn(axios, 'post').mockRejectedValue(new Error('no refresh in tests'));
+    const onLogin = vi.fn();
+    renderWithRouter('/', <div data-testid="protected">Protected</div>, { ...config, onLogin });
+    await waitFor(() =>
+      expect(onLogin).toHaveBeenCalledWith(expect.objectContaining({ source: 'bootstrap' })),
+    );
+    localStorage.removeItem('authToken');
+  });
+});
+
+describe('AuthProvider bootstrap with a stored token', () => {
+  afterEach(() => {
+    jwt.expired = false;
+    jwt.malformed = false;
+    localStorage.removeItem('authToken');
+  });
+
+  it('discards an expired token and restores the session via the refresh cookie', async () => {
+    localStorage.setItem('authToken', 'stale-token');
+    jwt.expired = true;
+    const post = vi.spyOn(axios, 'post').mockResolvedValue({ data: { accessToken: 'fresh' } });
+    renderWithRouter('/protected', <div data-testid="protected">Protected</div>);
+
+    expect(await screen.findByTestId('protected')).toBeInTheDocument();
+    expect(post).toHaveBeenCalledWith(
+      'https://api.example.com/api/auth/refresh-token',
+      expect.anything(),
+      expect.anything(),
+    );
+    expect(localStorage.getItem('authToken')).toBe('fresh');
+  });
+
+  it('clears a malformed token instead of throwing during render', async () => {
+    localStorage.setItem('authToken', 'garbage');
+    jwt.malformed = true;
+    vi.spyOn(axios, 'post').mockRejectedValue(new Error('no refresh in tests'));
+    renderWithRouter('/protected', <div data-testid="protected">Protected</div>);
+
+    expect((await screen.findAllByText('SignInPage.signIn')).length).toBeGreaterThan(0);
+    expect(localStorage.getItem('authToken')).toBeNull();
+  });
+});
+
+describe('AuthProvider remember me', () => {
+  const rememberConfig = { ...config, rememberMe: true };
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    localStorage.clear();
+    sessionStorage.clear();
+  });
+
+  it('keeps the session in sessionStorage when "Remember me" is left unchecked', async () => {
+    vi.spyOn(axios, 'post').mockRejectedValue(new Error('no refresh in tests'));
+    const post = vi
+      .spyOn(axios.Axios.prototype, 'post')
+      .mockResolvedValue({ data: { accessToken: 'tok' } });
+    renderWithRouter('/protected', <div data-testid="protected">Protected</div>, rememberConfig);
+
+    fireEvent.change(await screen.findByPlaceholderText('name@company.com'), {
+      target: { value: 'user@example.com' },
+    });
+    fireEvent.change(screen.getByPlaceholderText('form.passwordPlaceholder'), {
+      target: { value: 'password123' },
+    });
+    fireEvent.submit(document.querySelector('form')!);
+
+    expect(await screen.findByTestId('protected')).toBeInTheDocument();
+    expect(post.mock.calls[0][1]).toEqual({
+      email: 'user@example.com',
+      password: 'password123',
+      rememberMe: false,
+    });
+    expect(sessionStorage.getItem('authToken')).toBe('tok');
+    expect(localStorage.getItem('authToken')).toBeNull();
+  });
+
+  it('stores the bootstrap refresh result where the user chose', async () => {
+    localStorage.setItem('authPersistence', 'session');
+    vi.spyOn(axios, 'post').mockResolvedValue({ data: { accessToken: 'fresh' } });
+    renderWithRouter('/protected', <div data-testid="protected">Protected</div>, rememberConfig);
+
+    expect(await screen.findByTestId('protected')).toBeInTheDocument();
+    expect(sessionStorage.getItem('authToken')).toBe('fresh');
+    expect(localStorage.getItem('authToken')).toBeNull();
+  });
+});
+
+describe('AuthProvider post-login redirect', () => {
+  const Where = () => {
+    const { pathname, search, hash } = useLocation();
+    return <div data-testid="where">{`${pathname}${search}${hash}`}</div>;
+  };
+
+  async function signIn() {
+    fireEvent.change(await screen.findByPlaceholderText('name@company.com'), {
+      target: { value: 'user@example.com' },
+    });
+    fireEvent.change(screen.getByPlaceholderText('form.passwordPlaceholder'), {
+      target: { value: 'password123' },
+    });
+    fireEvent.submit(document.querySelector('form')!);
+  }
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    localStorage.removeItem('authToken');
+    sessionStorage.clear();
+  });
+
+  it('returns to the originally requested location after password login', async () => {
+    localStorage.removeItem('authToken');
+    vi.spyOn(axios, 'post').mockRejectedValue(new Error('no refresh in tests'));
+    vi.spyOn(axios.Axios.prototype, 'post').mockResolvedValue({ data: { accessToken: 'tok' } });
+    renderWithRouter('/orders?page=2#row-7', <Where />);
+
+    await signIn();
+    await waitFor(() =>
+      expect(screen.getByTestId('where').textContent).toBe('/orders?page=2#row-7'),
+    );
+  });
+
+  it('sends the bot-challenge token with the credentials', async () => {
+    vi.spyOn(axios, 'post').mockRejectedValue(new Error('no refresh in tests'));
+    const post = vi
+      .spyOn(axios.Axios.prototype, 'post')
+      .mockResolvedValue({ data: { accessToken: 'tok' } });
+    renderWithRouter('/orders', <Where />, {
+      ...config,
+      challengeProvider: createNoopChallenge('captcha-ok'),
+    });
+
+    await signIn();
+    await waitFor(() => expect(screen.getByTestId('where').textContent).toBe('/orders'));
+    expect(post.mock.calls[0][1]).toMatchObject({ captchaToken: 'captcha-ok' });
+  });
+
+  it('continues through the MFA challenge before redirecting', async () => {
+    localStorage.removeItem('authToken');
+    vi.spyOn(axios, 'post').mockRejectedValue(new Error('no refresh in tests'));
+    const post = vi
+      .spyOn(axios.Axios.prototype, 'post')
+      .mockResolvedValueOnce({ data: { mfaRequired: true, mfaToken: 'mfa-1', methods: ['totp'] } })
+      .mockResolvedValueOnce({ data: { accessToken: 'tok' } });
+    renderWithRouter('/orders?page=2', <Where />);
+
+    await signIn();
+    fireEvent.paste(await screen.findByLabelText('Verification code 1'), {
+      clipboardData: { getData: () => '123456' },
+    });
+    fireEvent.submit(document.querySelector('form')!);
+
+    await waitFor(() => expect(screen.getByTestId('where').textContent).toBe('/orders?page=2'));
+    expect(post).toHaveBeenLastCalledWith('/api/auth/mfa/verify', {
+      mfaToken: 'mfa-1',
+      code: '123456',
+      method: 'totp',
+      trustDevice: false,
+    });
+  });
+
+  it('signs in with a passkey and reports the login source', async () => {
+    localStorage.removeItem('authToken');
+    vi.spyOn(axios, 'post').mockRejectedValue(new Error('no refresh in tests'));
+    vi.stubGlobal('PublicKeyCredential', function PublicKeyCredential() {});
+    Object.defineProperty(navigator, 'credentials', {
+      value: {
+        get: vi.fn().mockResolvedValue({
+          id: 'c',
+          rawId: new Uint8Array([1]).buffer,
+          type: 'public-key',
+          response: { clientDataJSON: new Uint8Array([2]).buffer },
+          getClientExtensionResults: () => ({}),
+        }),
+      },
+      configurable: true,
+    });
+    const post = vi
+      .spyOn(axios.Axios.prototype, 'post')
+      .mockResolvedValueOnce({ data: { challenge: 'AQ' } })
+      .mockResolvedValueOnce({ data: { accessToken: 'tok' } });
+    const onLogin = vi.fn();
+    renderWithRouter('/orders', <Where />, { ...config, passkeys: true, onLogin });
+
+    fireEvent.click(await screen.findByText('Sign in with a passkey'));
+
+    await waitFor(() => expect(screen.getByTestId('where').textContent).toBe('/orders'));
+    expect(post).toHaveBeenLastCalledWith(
+      '/api/auth/passkeys/login',
+      expect.objectContaining({ id: 'c', rawId: 'AQ' }),
+    );
+    expect(onLogin).toHaveBeenCalledWith(expect.objectContaining({ source: 'passkey' }));
+    vi.unstubAllGlobals();
+    Object.defineProperty(navigator, 'credentials', { value: undefined, configurable: true });
+  });
+
+  it('finishes a magic-link sign-in on the page that asked for it', async () => {
+    localStorage.removeItem('authToken');
+    sessionStorage.setItem('postLoginRedirect', '/orders');
+    vi.spyOn(axios, 'post').mockRejectedValue(new Error('no refresh in tests'));
+    const post = vi
+      .spyOn(axios.Axios.prototype, 'post')
+      .mockResolvedValue({ data: { accessToken: 'tok' } });
+    const onLogin = vi.fn();
+    renderWithRouter('/magic-link?token=abc', <Where />, {
+      ...config,
+      passwordless: { method: 'link' },
+      onLogin,
+    });
+
+    await waitFor(() => expect(screen.getByTestId('where').textContent).toBe('/orders'));
+    expect(post).toHaveBeenCalledWith('/api/auth/passwordless/verify', { token: 'abc' });
+    expect(onLogin).toHaveBeenCalledWith(expect.objectContaining({ source: 'passwordless' }));
+  });
+
+  it('keeps the original login source when MFA finishes a magic-link sign-in', async () => {
+    localStorage.removeItem('authToken');
+    sessionStorage.setItem('postLoginRedirect', '/orders');
+    vi.spyOn(axios, 'post').mockRejectedValue(new Error('no refresh in tests'));
+    vi.spyOn(axios.Axios.prototype, 'post')
+      .mockResolvedValueOnce({ data: { mfaRequired: true, mfaToken: 'mfa-1' } })
+      .mockResolvedValueOnce({ data: { accessToken: 'tok' } });
+    const onLogin = vi.fn();
+    renderWithRouter('/magic-link?token=abc', <Where />, {
+      ...config,
+      passwordless: { method: 'link' },
+      onLogin,
+    });
+
+    fireEvent.paste(await screen.findByLabelText('Verification code 1'), {
+      clipboardData: { getData: () => '123456' },
+    });
+    fireEvent.submit(document.querySelector('form')!);
+
+    await waitFor(() => expect(screen.getByTestId('where').textContent).toBe('/orders'));
+    expect(onLogin).toHaveBeenCalledWith(expect.objectContaining({ source: 'passwordless' }));
+  });
+
+  it('completes an OAuth callback in place, without a reload', async () => {
+    localStorage.removeItem('authToken');
+    sessionStorage.setItem('postLoginRedirect', '/orders');
+    sessionStorage.setItem('oauthState', 'st4te');
+    vi.spyOn(axios, 'post').mockRejectedValue(new Error('no refresh in tests'));
+    const onLogin = vi.fn();
+    renderWithRouter('/oauth/github/callback#accessToken=tok&state=st4te', <Where />, {
+      ...config,
+      onLogin,
+    });
+
+    await waitFor(() => expect(screen.getByTestId('where').textContent).toBe('/orders'));
+    expect(localStorage.getItem('authToken')).toBe('tok');
+    expect(onLogin).toHaveBeenCalledWith(expect.objectContaining({ source: 'oauth' }));
+  });
+
+  it('lands on defaultRedirect when no page was requested', async () => {
+    localStorage.removeItem('authToken');
+    vi.spyOn(axios, 'post').mockRejectedValue(new Error('no refresh in tests'));
+    vi.spyOn(axios.Axios.prototype, 'post').mockResolvedValue({ data: { accessToken: 'tok' } });
+    renderWithRouter('/login', <Where />, { ...config, defaultRedirect: '/home' });
+
+    await signIn();
+    expect((await screen.findByTestId('where')).textContent).toBe('/home');
+  });
+});
+
+describe('AuthProvider routes config', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    localStorage.removeItem('authToken');
+  });
+
+  it('mounts the built-in pages under basePath and redirects there', async () => {
+    vi.spyOn(axios, 'post').mockRejectedValue(new Error('no refresh in tests'));
+    renderWithRouter('/protected', <div data-testid="protected">Protected</div>, {
+      ...config,
+      basePath: '/auth',
+      routes: { login: 'sign-in' },
+    });
+    expect((await screen.findAllByText('SignInPage.signIn')).length).toBeGreaterThan(0);
+  });
+
+  it('renders a replacement element and skips disabled pages', async () => {
+    vi.spyOn(axios, 'post').mockRejectedValue(new Error('no refresh in tests'));
+    renderWithRouter('/signup', <div data-testid="protected">Protected</div>, {
+      ...config,
+      routes: { login: { element: <div data-testid="custom-login" /> }, signup: false },
+    });
+    // /signup is no longer public, so it is guarded and bounces to the custom login page
+    expect(await screen.findByTestId('custom-login')).toBeInTheDocument();
+  });
+
+  it('only provides context in headless mode', async () => {
+    vi.spyOn(axios, 'post').mockRejectedValue(new Error('no refresh in tests'));
+    const Status = () => <div data-testid="status">{useAuthState().status}</div>;
+    renderWithRouter('/login', <Status />, { ...config, headless: true });
+    await waitFor(() => expect(screen.getByTestId('status').textContent).toBe('unauthenticated'));
+    expect(screen.queryAllByText('SignInPage.signIn')).toHaveLength(0);
+  });
+});
+
+describe('AuthProvider publicPaths', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('renders public pages signed-out while still exposing auth state', async () => {
+    localStorage.removeItem('authToken');
+    vi.spyOn(axios, 'post').mockRejectedValue(new Error('no refresh in tests'));
+    const Pricing = () => {
+      const { status } = useAuthState();
+      return <div data-testid="pricing">{status}</div>;
+    };
+    renderWithRouter('/pricing', <Pricing />, { ...config, publicPaths: ['/pricing'] });
+
+    await waitFor(() => expect(screen.getByTestId('pricing').textContent).toBe('unauthenticated'));
+    expect(screen.queryAllByText('SignInPage.signIn')).toHaveLength(0);
+  });
+});
+
+describe('AuthProvider OIDC mode', () => {
+  const oidcConfig = {
+    ...config,
+    oidc: { issuer: 'https://idp.test', clientId: 'spa' },
+  };
+  const realLocation = window.location;
+  let assign: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    assign = vi.fn();
+    Object.defineProperty(window, 'location', {
+      value: { ...realLocation, assign },
+      writable: true,
+    });
+  });
+
+  afterEach(() => {
+    Object.defineProperty(window, 'location', { value: realLocation, writable: true });
+    vi.restoreAllMocks();
+    localStorage.clear();
+    sessionStorage.clear();
+  });
+
+  it('sends signed-out visitors to the identity provider', async () => {
+    oidc.createOidcAuthorizeUrl.mockResolvedValue('https://idp.test/auth?state=s');
+    renderWithRouter('/orders', <div>Orders</div>, oidcConfig);
+
+    await waitFor(() => expect(assign).toHaveBeenCalledWith('https://idp.test/auth?state=s'));
+    expect(oidc.createOidcAuthorizeUrl).toHaveBeenCalledWith(
+      oidcConfig.oidc,
+      `${realLocation.origin}/oidc/callback`,
+    );
+    expect(sessionStorage.getItem('postLoginRedirect')).toBe('/orders');
+  });
+
+  it('finishes the code flow on the callback route', async () => {
+    sessionStorage.setItem('postLoginRedirect', '/orders');
+    oidc.completeOidcLogin.mockResolvedValue({
+      accessToken: 'at',
+      refreshToken: 'rt',
+      idToken: 'idt',
+    });
+    const onLogin = vi.fn();
+    const Where = () => <div data-testid="where">{useLocation().pathname}</div>;
+    renderWithRouter('/oidc/callback?code=c&state=s', <Where />, { ...oidcConfig, onLogin });
+
+    await waitFor(() => expect(screen.getByTestId('where').textContent).toBe('/orders'));
+    expect(oidc.completeOidcLogin).toHaveBeenCalledWith(oidcConfig.oidc, '?code=c&state=s', 30);
+    expect(localStorage.getItem('refreshToken')).toBe('rt');
+    expect(onLogin).toHaveBeenCalledWith(expect.objectContaining({ source: 'oidc' }));
+  });
+
+  it('builds the user from the validated ID token, not the access token', async () => {
+    jwt.decoded = [];
+    oidc.completeOidcLogin.mockResolvedValue({ accessToken: 'opaque-at', idToken: 'idt' });
+    renderWithRouter('/oidc/callback?code=c&state=s', <div>Home</div>, oidcConfig);
+
+    expect(await screen.findByText('Home')).toBeInTheDocument();
+    expect(jwt.decoded).toContain('idt');
+    expect(jwt.decoded).not.toContain('opaque-at');
+  });
+
+  it('schedules refreshes from expires_in for an opaque access token', async () => {
+    const expiresAt = Date.now() + 3_600_000;
+    oidc.completeOidcLogin.mockResolvedValue({
+      accessToken: 'opaque-at',
+      idToken: 'idt',
+      expiresAt,
+    });
+    const Expiry = () => <div data-testid="expiry">{String(useAuthState().expiresAt)}</div>;
+    renderWithRouter('/oidc/callback?code=c&state=s', <Expiry />, oidcConfig);
+
+    await waitFor(() => expect(screen.getByTestId('expiry').textContent).toBe(String(expiresAt)));
+    expect(localStorage.getItem('authTokenExpiresAt')).toBe(String(expiresAt));
+  });
+
+  it('does not restore an opaque access token past its stored expiry', async () => {
+    localStorage.setItem('authToken', 'opaque-at');
+    localStorage.setItem('idToken', 'idt');
+    localStorage.setItem('authTokenExpiresAt', String(Date.now() - 60_000));
+    localStorage.setItem('refreshToken', 'rt');
+    oidc.refreshOidcTokens.mockResolvedValue({ accessToken: 'at2', idToken: 'idt2' });
+    renderWithRouter('/orders', <div>Orders</div>, oidcConfig);
+
+    expect(await screen.findByText('Orders')).toBeInTheDocument();
+    expect(oidc.refreshOidcTokens).toHaveBeenCalledWith(oidcConfig.oidc, 'rt', 30);
+    expect(localStorage.getItem('authToken')).toBe('at2');
+    expect(localStorage.getItem('authTokenExpiresAt')).toBeNull();
+  });
+
+  it('restores the session with the refresh_token grant', async () => {
+    localStorage.setItem('refreshToken', 'rt');
+    oidc.refreshOidcTokens.mockResolvedValue({ accessToken: 'at2', refreshToken: 'rt2' });
+    const post = vi.spyOn(axios, 'post');
+    renderWithRouter('/orders', <div>Orders</div>, oidcConfig);
+
+    expect(await screen.findByText('Orders')).toBeInTheDocument();
+    expect(oidc.refreshOidcTokens).toHaveBeenCalledWith(oidcConfig.oidc, 'rt', 30);
+    expect(localStorage.getItem('refreshToken')).toBe('rt2');
+    expect(post).not.toHaveBeenCalled();
+  });
+
+  it('logs out at the identity provider', async () => {
+    localStorage.setItem('authToken', 'at');
+    localStorage.setItem('idToken', 'idt');
+    oidc.createOidcLogoutUrl.mockResolvedValue('https://idp.test/logout?id_token_hint=idt');
+    const LogoutButton = () => <button onClick={useAuthState().logout}>Log out</button>;
+    renderWithRouter('/orders', <LogoutButton />, oidcConfig);
+
+    fireEvent.click(await screen.findByText('Log out'));
+
+    await waitFor(() =>
+      expect(assign).toHaveBeenCalledWith('https://idp.test/logout?id_token_hint=idt'),
+    );
+    expect(oidc.createOidcLogoutUrl).toHaveBeenCalledWith(oidcConfig.oidc, 'idt');
+    expect(localStorage.getItem('idToken')).toBeNull();
+  });
 });
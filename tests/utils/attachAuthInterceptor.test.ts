@@ -1,6 +1,7 @@
 import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
 import { describe, it, expect, vi } from 'vitest';
 import { attachAuthInterceptor, resetSessionFlag } from '../../src/utils/attachAuthInterceptor';
+import { createAuthEventBus } from '../../src/utils/authEvents';
 
 function make401(config: InternalAxiosRequestConfig) {
   return new AxiosError('Unauthorized', 'ERR_BAD_REQUEST', config, null, {
@@ -81,4 +82,59 @@ describe('attachAuthInterceptor', () => {
     expect(results[1].status).toBe('rejected');
     expect(opts.logout).toHaveBeenCalledTimes(1);
   });
+
+  it('emits refreshFailed and sessionExpired on the event bus', async () => {
+    const api = axios.create();
+    resetSessionFlag();
+    (api.defaults as any).adapter = async (config: InternalAxiosRequestConfig) => {
+      throw make401(config);
+    };
+
+    const events = createAuthEventBus();
+    const onFailed = vi.fn();
+    const onExpired = vi.fn();
+    events.on('refreshFailed', onFailed);
+    events.on('sessionExpired', onExpired);
+
+    attachAuthInterceptor(api, {
+      baseUrl: 'https://api.example.com',
+      getAccessToken: () => 'oldtok',
+      setAccessToken: vi.fn(),
+      logout: vi.fn(),
+      refresh: () => Promise.reject(new Error('refresh fail')),
+      events,
+    });
+
+    await expect(api.get('/x')).rejects.toThrow('refresh fail');
+    expect(onFailed).toHaveBeenCalledTimes(1);
+    expect(onExpired).toHaveBeenCalledTimes(1);
+  });
+
+  it('emits tokenRefreshed after a successful refresh', async () => {
+    const api = axios.create();
+    let first = true;
+    (api.defaults as any).adapter = async (config: InternalAxiosRequestConfig) => {
+      if (first) {
+        first = false;
+        throw make401(config);
+      }
+      return { status: 200, data: {}, headers: {}, config, statusText: 'OK' } as any;
+    };
+
+    const events = createAuthEventBus();
+    const onRefreshed = vi.fn();
+    events.on('tokenRefreshed', onRefreshed);
+
+    attachAuthInterceptor(api, {
+      baseUrl: 'https://api.example.com',
+      getAccessToken: () => 'oldtok',
+      setAccessToken: vi.fn(),
+      logout: vi.fn(),
+      refresh: () => Promise.resolve('newtok'),
+      events,
+    });
+
+    await api.get('/x');
+    expect(onRefreshed).toHaveBeenCalledWith({ accessToken: 'newtok', expiresAt: null });
+  });
 });
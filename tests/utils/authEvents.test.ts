@@ -0,0 +1,41 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createAuthEventBus } from '../../src/utils/authEvents';
+
+describe('createAuthEventBus', () => {
+  it('delivers typed payloads to subscribers of that event only', () => {
+    const bus = createAuthEventBus();
+    const onLogout = vi.fn();
+    const onLogin = vi.fn();
+    bus.on('logout', onLogout);
+    bus.on('login', onLogin);
+
+    bus.emit('logout', { reason: 'idle' });
+
+    expect(onLogout).toHaveBeenCalledWith({ reason: 'idle' });
+    expect(onLogin).not.toHaveBeenCalled();
+  });
+
+  it('unsubscribes', () => {
+    const bus = createAuthEventBus();
+    const fn = vi.fn();
+    const off = bus.on('sessionExpired', fn);
+    off();
+    bus.emit('sessionExpired', {});
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it('keeps notifying when a listener throws', () => {
+    const bus = createAuthEventBus();
+    const errSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const after = vi.fn();
+    bus.on('userChanged', () => {
+      throw new Error('boom');
+    });
+    bus.on('userChanged', after);
+
+    bus.emit('userChanged', { user: null });
+
+    expect(after).toHaveBeenCalled();
+    errSpy.mockRestore();
+  });
+});
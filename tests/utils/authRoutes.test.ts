@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_ROUTES, resolveAuthRoute } from '../../src/utils/authRoutes';
+
+describe('resolveAuthRoute', () => {
+  it('falls back to the default paths', () => {
+    expect(resolveAuthRoute(null, 'login')).toEqual({ path: DEFAULT_ROUTES.login });
+    expect(resolveAuthRoute({}, 'verifyEmail').path).toBe('/verify-email');
+  });
+
+  it('applies renames and the basePath prefix', () => {
+    const config = { basePath: '/auth/', routes: { login: 'sign-in' } };
+    expect(resolveAuthRoute(config, 'login').path).toBe('/auth/sign-in');
+    expect(resolveAuthRoute(config, 'signup').path).toBe('/auth/signup');
+  });
+
+  it('marks disabled routes with a null element but keeps their path', () => {
+    expect(resolveAuthRoute({ routes: { signup: false } }, 'signup')).toEqual({
+      path: '/signup',
+      element: null,
+    });
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { base64urlToBuffer, bufferToBase64url } from '../../src/utils/base64url';
+
+describe('base64url helpers', () => {
+  it('encodes without padding using the URL-safe alphabet', () => {
+    expect(bufferToBase64url(new Uint8Array([0xfb, 0xff, 0xbf]))).toBe('-_-_');
+    expect(bufferToBase64url(new TextEncoder().encode('ab'))).toBe('YWI');
+  });
+
+  it('decodes padded and unpadded input', () => {
+    expect(new Uint8Array(base64urlToBuffer('-_-_'))).toEqual(new Uint8Array([0xfb, 0xff, 0xbf]));
+    expect(new TextDecoder().decode(base64urlToBuffer('YWI'))).toBe('ab');
+    expect(new TextDecoder().decode(base64urlToBuffer('YWI='))).toBe('ab');
+  });
+
+  it('round-trips arbitrary bytes, including typed-array views', () => {
+    const bytes = Uint8Array.from({ length: 64 }, (_, i) => (i * 37) % 256);
+    const view = new Uint8Array(bytes.buffer, 8, 16);
+    expect(new Uint8Array(base64urlToBuffer(bufferToBase64url(bytes)))).toEqual(bytes);
+    expect(new Uint8Array(base64urlToBuffer(bufferToBase64url(view)))).toEqual(view);
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createHcaptchaChallenge,
+  createNoopChallenge,
+  createRecaptchaV3Challenge,
+  createTurnstileChallenge,
+  solveChallenge,
+} from '../../src/utils/challengeProviders';
+
+/**
+ * jsdom never fetches scripts; fire `load` for the one just injected. Loaded
+ * scripts are cached per src, so later tests for the same vendor inject none.
+ */
+function loadInjectedScript(src: string) {
+  const el = [...document.head.querySelectorAll('script')].find((s) => s.src.startsWith(src));
+  el?.dispatchEvent(new Event('load'));
+}
+
+describe('challenge providers', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    document.head.innerHTML = '';
+    document.body.innerHTML = '';
+  });
+
+  it('puts the token in a body field or a header', async () => {
+    expect(await solveChallenge(undefined, 'login')).toEqual({ fields: {} });
+    expect(await solveChallenge(createNoopChallenge(), 'login')).toEqual({
+      fields: { captchaToken: 'test-token' },
+    });
+    expect(
+      await solveChallenge(createNoopChallenge('t', { header: 'X-Captcha' }), 'login'),
+    ).toEqual({ fields: {}, config: { headers: { 'X-Captcha': 't' } } });
+  });
+
+  it('reCAPTCHA v3 executes with the form action', async () => {
+    const execute = vi.fn().mockResolvedValue('rc-token');
+    vi.stubGlobal('grecaptcha', { ready: (cb: () => void) => cb(), execute });
+
+    const pending = createRecaptchaV3Challenge({ siteKey: 'site' }).getToken('signup');
+    loadInjectedScript('https://www.google.com/recaptcha/api.js?render=site');
+
+    await expect(pending).resolves.toBe('rc-token');
+    expect(execute).toHaveBeenCalledWith('site', { action: 'signup' });
+  });
+
+  it('hCaptcha renders one invisible widget and resets it after each token', async () => {
+    const hcaptcha = {
+      render: vi.fn().mockReturnValue('w1'),
+      execute: vi.fn().mockResolvedValue({ response: 'hc-token' }),
+      reset: vi.fn(),
+    };
+    vi.stubGlobal('hcaptcha', hcaptcha);
+    const provider = createHcaptchaChallenge({ siteKey: 'site' });
+
+    const first = provider.getToken('login');
+    loadInjectedScript('https://js.hcaptcha.com/1/api.js');
+    await expect(first).resolves.toBe('hc-token');
+    await expect(provider.getToken('login')).resolves.toBe('hc-token');
+
+    expect(hcaptcha.render).toHaveBeenCalledTimes(1);
+    expect(hcaptcha.render.mock.calls[0][1]).toMatchObject({ sitekey: 'site', size: 'invisible' });
+    expect(hcaptcha.reset).toHaveBeenCalledTimes(2);
+  });
+
+  it('hCaptcha gives up when the challenge never answers', async () => {
+    vi.useFakeTimers();
+    const hcaptcha = {
+      render: vi.fn().mockReturnValue('w1'),
+      execute: vi.fn(() => new Promise(() => {})),
+      reset: vi.fn(),
+    };
+    vi.stubGlobal('hcaptcha', hcaptcha);
+
+    const pending = createHcaptchaChallenge({ siteKey: 'site', timeoutSeconds: 5 }).getToken(
+      'login',
+    );
+    const settled = expect(pending).rejects.toThrow('could not verify that you are human');
+    loadInjectedScript('https://js.hcaptcha.com/1/api.js');
+    await vi.advanceTimersByTimeAsync(5000);
+
+    await settled;
+    expect(hcaptcha.reset).toHaveBeenCalledWith('w1');
+    vi.useRealTimers();
+  });
+
+  it('Turnstile resolves from the widget callback and cleans up', async () => {
+    const turnstile = {
+      render: vi.fn((_el: HTMLElement, params: { callback(token: string): void }) => {
+        queueMicrotask(() => params.callback('ts-token'));
+        return 'w1';
+      }),
+      remove: vi.fn(),
+    };
+    vi.stubGlobal('turnstile', turnstile);
+
+    const pending = createTurnstileChallenge({ siteKey: 'site' }).getToken('forgotPassword');
+    loadInjectedScript('https://challenges.cloudflare.com/turnstile/v0/api.js');
+
+    await expect(pending).resolves.toBe('ts-token');
+    expect(turnstile.render.mock.calls[0][1]).toMatchObject({
+      sitekey: 'site',
+      action: 'forgotPassword',
+    });
+    expect(turnstile.remove).toHaveBeenCalledWith('w1');
+    expect(document.body.childElementCount).toBe(0);
+  });
+
+  it('Turnstile rejects and cleans up when the challenge times out or expires', async () => {
+    for (const event of ['timeout-callback', 'expired-callback']) {
+      const turnstile = {
+        render: vi.fn((_el: HTMLElement, params: Record<string, () => void>) => {
+          queueMicrotask(() => params[event]());
+          return 'w1';
+        }),
+        remove: vi.fn(),
+      };
+      vi.stubGlobal('turnstile', turnstile);
+
+      const pending = createTurnstileChallenge({ siteKey: 'site' }).getToken('login');
+      loadInjectedScript('https://challenges.cloudflare.com/turnstile/v0/api.js');
+
+      await expect(pending).rejects.toThrow('could not verify that you are human');
+      expect(turnstile.remove).toHaveBeenCalledWith('w1');
+      expect(document.body.childElementCount).toBe(0);
+    }
+  });
+
+  it('Turnstile gives up when no outcome arrives in time', async () => {
+    vi.useFakeTimers();
+    const turnstile = { render: vi.fn().mockReturnValue('w1'), remove: vi.fn() };
+    vi.stubGlobal('turnstile', turnstile);
+
+    const pending = createTurnstileChallenge({ siteKey: 'site', timeoutSeconds: 5 }).getToken(
+      'login',
+    );
+    const settled = expect(pending).rejects.toThrow('could not verify that you are human');
+    loadInjectedScript('https://challenges.cloudflare.com/turnstile/v0/api.js');
+    await vi.advanceTimersByTimeAsync(5000);
+
+    await settled;
+    expect(turnstile.remove).toHaveBeenCalledWith('w1');
+    expect(document.body.childElementCount).toBe(0);
+    vi.useRealTimers();
+  });
+
+  it('rejects when the vendor script fails to load', async () => {
+    const pending = createRecaptchaV3Challenge({ siteKey: 'broken' }).getToken('login');
+    const el = document.head.querySelector('script')!;
+    el.dispatchEvent(new Event('error'));
+    await expect(pending).rejects.toThrow('could not verify that you are human');
+  });
+});
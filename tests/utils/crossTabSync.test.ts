@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createCrossTabSync, CrossTabSync } from '../../src/utils/crossTabSync';
+
+// Two sync instances on the same channel name behave like two tabs
+const open: CrossTabSync[] = [];
+function tab(name: string) {
+  const s = createCrossTabSync(name);
+  open.push(s);
+  return s;
+}
+
+afterEach(() => {
+  open.splice(0).forEach((s) => s.close());
+  localStorage.clear();
+  vi.unstubAllGlobals();
+});
+
+describe('createCrossTabSync', () => {
+  it('delivers messages to other tabs but not back to the sender', async () => {
+    const a = tab('sync-a');
+    const b = tab('sync-a');
+    const onA = vi.fn();
+    const onB = vi.fn();
+    a.subscribe(onA);
+    b.subscribe(onB);
+
+    a.post({ type: 'logout' });
+
+    await vi.waitFor(() => expect(onB).toHaveBeenCalledWith({ type: 'logout' }));
+    expect(onA).not.toHaveBeenCalled();
+  });
+
+  it('lets only one tab call the refresh endpoint and shares the token', async () => {
+    const a = tab('sync-b');
+    const b = tab('sync-b');
+    const refreshA = vi.fn().mockResolvedValue('new-token');
+    const refreshB = vi.fn().mockResolvedValue('other-token');
+
+    const [ta, tb] = await Promise.all([a.refreshAsLeader(refreshA), b.refreshAsLeader(refreshB)]);
+
+    expect(refreshA).toHaveBeenCalledTimes(1);
+    expect(refreshB).not.toHaveBeenCalled();
+    expect(ta).toBe('new-token');
+    expect(tb).toBe('new-token');
+  });
+
+  it('dedupes concurrent refreshes inside one tab', async () => {
+    const a = tab('sync-c');
+    const refresh = vi.fn().mockResolvedValue('tok');
+    await Promise.all([a.refreshAsLeader(refresh), a.refreshAsLeader(refresh)]);
+    expect(refresh).toHaveBeenCalledTimes(1);
+  });
+
+  it('propagates a failed leader refresh to waiting tabs', async () => {
+    const a = tab('sync-d');
+    const b = tab('sync-d');
+    const refreshA = vi.fn().mockRejectedValue({ response: { status: 401 } });
+
+    const pa = a.refreshAsLeader(refreshA);
+    const pb = b.refreshAsLeader(vi.fn());
+
+    await expect(pa).rejects.toEqual({ response: { status: 401 } });
+    await expect(pb).rejects.toMatchObject({ response: { status: 401 } });
+  });
+
+  it('ignores posts after close but still shares an in-flight refresh', async () => {
+    const a = tab('sync-f');
+    const b = tab('sync-f');
+    const onB = vi.fn();
+    b.subscribe(onB);
+
+    let finish: (token: string) => void = () => {};
+    const refreshed = a.refreshAsLeader(() => new Promise((resolve) => (finish = resolve)));
+    a.close();
+    finish('late-token');
+
+    await expect(refreshed).resolves.toBe('late-token');
+    await vi.waitFor(() =>
+      expect(onB).toHaveBeenCalledWith({ type: 'token', token: 'late-token' }),
+    );
+    expect(() => a.post({ type: 'logout' })).not.toThrow();
+  });
+
+  it('falls back to storage events without BroadcastChannel', () => {
+    vi.stubGlobal('BroadcastChannel', undefined);
+    const a = tab('sync-e');
+    const onA = vi.fn();
+    a.subscribe(onA);
+
+    window.dispatchEvent(
+      new StorageEvent('storage', {
+        key: 'sync-e:sync',
+        newValue: JSON.stringify({ msg: { type: 'token', token: 'shared' }, nonce: 'n' }),
+      }),
+    );
+
+    expect(onA).toHaveBeenCalledWith({ type: 'token', token: 'shared' });
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_ENDPOINTS, resolveEndpoint } from '../../src/utils/endpoints';
+
+describe('resolveEndpoint', () => {
+  it('falls back to the default path with identity transformers', () => {
+    const ep = resolveEndpoint(null, 'login');
+    expect(ep.path).toBe('/api/auth/login');
+    expect(ep.transformRequest({ a: 1 })).toEqual({ a: 1 });
+    expect(ep.transformResponse({ b: 2 })).toEqual({ b: 2 });
+  });
+
+  it('accepts a bare path override', () => {
+    const ep = resolveEndpoint({ endpoints: { refresh: '/v2/token' } }, 'refresh');
+    expect(ep.path).toBe('/v2/token');
+  });
+
+  it('applies per-endpoint transformers', () => {
+    const ep = resolveEndpoint(
+      {
+        endpoints: {
+          login: {
+            path: '/session',
+            transformRequest: (d) => ({ user: d }),
+            transformResponse: (d) => ({ accessToken: d.token }),
+          },
+        },
+      },
+      'login',
+    );
+    expect(ep.transformRequest({ email: 'x' })).toEqual({ user: { email: 'x' } });
+    expect(ep.transformResponse({ token: 't' })).toEqual({ accessToken: 't' });
+  });
+
+  it('honours the legacy signUp props for register', () => {
+    const transform = (d: Record<string, unknown>) => ({ ...d, legacy: true });
+    const ep = resolveEndpoint(
+      { signUpEndpoint: '/custom/register', signUpTransformPayload: transform },
+      'register',
+    );
+    expect(ep.path).toBe('/custom/register');
+    expect(ep.transformRequest({})).toEqual({ legacy: true });
+  });
+
+  it('prefers endpoints.register over the legacy props', () => {
+    const ep = resolveEndpoint(
+      { endpoints: { register: '/new' }, signUpEndpoint: '/old' },
+      'register',
+    );
+    expect(ep.path).toBe('/new');
+  });
+
+  it('uses a single refresh path by default', () => {
+    expect(DEFAULT_ENDPOINTS.refresh).toBe('/api/auth/refresh-token');
+  });
+});
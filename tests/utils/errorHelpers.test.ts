@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { extractHttpErrorMessage } from '../../src/utils/errorHelpers';
+import { extractHttpErrorMessage, getRateLimitInfo } from '../../src/utils/errorHelpers';
 
 function makeAxiosError(overrides: Record<string, unknown> = {}) {
   return {
@@ -54,3 +54,36 @@ describe('extractHttpErrorMessage', () => {
     expect(extractHttpErrorMessage(err)).toBe('trimmed');
   });
 });
+
+describe('getRateLimitInfo', () => {
+  const now = Date.parse('2026-01-01T00:00:00Z');
+  const withResponse = (response: Record<string, unknown>) =>
+    makeAxiosError({ response: { data: {}, headers: {}, ...response } });
+
+  it('reads Retry-After seconds from a 429', () => {
+    const err = withResponse({ status: 429, headers: { 'retry-after': '42' } });
+    expect(getRateLimitInfo(err, now)).toEqual({ locked: false, retryAfterSeconds: 42 });
+  });
+
+  it('reads Retry-After as an HTTP date', () => {
+    const err = withResponse({
+      status: 429,
+      headers: { 'retry-after': 'Thu, 01 Jan 2026 00:02:00 GMT' },
+    });
+    expect(getRateLimitInfo(err, now)?.retryAfterSeconds).toBe(120);
+  });
+
+  it('flags locked accounts by status or error code', () => {
+    expect(getRateLimitInfo(withResponse({ status: 423 }), now)).toEqual({
+      locked: true,
+      retryAfterSeconds: null,
+    });
+    const byCode = withResponse({ status: 403, data: { code: 'ACCOUNT_LOCKED' } });
+    expect(getRateLimitInfo(byCode, now)?.locked).toBe(true);
+  });
+
+  it('ignores other failures', () => {
+    expect(getRateLimitInfo(withResponse({ status: 401 }), now)).toBeNull();
+    expect(getRateLimitInfo(new Error('network'), now)).toBeNull();
+  });
+});
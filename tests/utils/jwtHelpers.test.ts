@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { decodeToken } from '../../src/utils/jwtHelpers';
+import { decodeToken, getTokenExpiry, isTokenExpired } from '../../src/utils/jwtHelpers';
 
 function b64url(input: string) {
   const base64 = Buffer.from(input, 'utf-8').toString('base64');
@@ -44,3 +44,60 @@ describe('jwtHelpers.decodeToken', () => {
     });
   });
 });
+
+describe('jwtHelpers.decodeToken with a claimMapper', () => {
+  it('passes raw claims and the default mapping to the mapper', () => {
+    const payload = {
+      sub: '42',
+      email: 'a@acme.io',
+      'https://acme.io/roles': ['owner'],
+      'https://acme.io/plan': 'pro',
+      iat: 0,
+      exp: 1,
+    };
+    const token = `${b64url(JSON.stringify({ alg: 'none' }))}.${b64url(JSON.stringify(payload))}.sig`;
+
+    const user = decodeToken(token, (claims, defaults) => ({
+      ...defaults,
+      roles: claims['https://acme.io/roles'] as string[],
+      plan: claims['https://acme.io/plan'] as 'free' | 'pro',
+    }));
+
+    expect(user.id).toBe('42');
+    expect(user.roles).toEqual(['owner']);
+    expect(user.plan).toBe('pro');
+  });
+});
+
+describe('jwtHelpers.getTokenExpiry', () => {
+  it('returns exp in milliseconds', () => {
+    const token = `${b64url(JSON.stringify({ alg: 'none' }))}.${b64url(JSON.stringify({ sub: 'x', exp: 1700000000 }))}.sig`;
+    expect(getTokenExpiry(token)).toBe(1700000000 * 1000);
+  });
+
+  it('returns null for tokens without exp or garbage input', () => {
+    const token = `${b64url(JSON.stringify({ alg: 'none' }))}.${b64url(JSON.stringify({ sub: 'x' }))}.sig`;
+    expect(getTokenExpiry(token)).toBeNull();
+    expect(getTokenExpiry('not-a-jwt')).toBeNull();
+  });
+});
+
+describe('jwtHelpers.isTokenExpired', () => {
+  const withExp = (exp?: number) =>
+    `${b64url(JSON.stringify({ alg: 'none' }))}.${b64url(JSON.stringify({ sub: 'x', exp }))}.sig`;
+  const nowSec = () => Math.floor(Date.now() / 1000);
+
+  it('compares exp against the current time', () => {
+    expect(isTokenExpired(withExp(nowSec() + 300))).toBe(false);
+    expect(isTokenExpired(withExp(nowSec() - 300))).toBe(true);
+  });
+
+  it('tolerates clock skew', () => {
+    expect(isTokenExpired(withExp(nowSec() - 10), 30)).toBe(false);
+    expect(isTokenExpired(withExp(nowSec() - 60), 30)).toBe(true);
+  });
+
+  it('treats tokens without exp as not expired', () => {
+    expect(isTokenExpired(withExp())).toBe(false);
+  });
+});
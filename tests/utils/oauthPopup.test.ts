@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { OAUTH_POPUP_NAME, openOAuthPopup, postToOpener } from '../../src/utils/oauthPopup';
+
+/** a real Window for MessageEvent.source, standing in for the popup */
+function fakePopup() {
+  const frame = document.createElement('iframe');
+  document.body.appendChild(frame);
+  return frame.contentWindow!;
+}
+
+function reply(source: Window, params: Record<string, string>, origin = window.location.origin) {
+  window.dispatchEvent(
+    new MessageEvent('message', {
+      data: { type: 'authkit:oauth-callback', params },
+      origin,
+      source,
+    }),
+  );
+}
+
+describe('openOAuthPopup', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+    document.body.innerHTML = '';
+  });
+
+  it('returns null when the popup is blocked', () => {
+    vi.spyOn(window, 'open').mockReturnValue(null);
+    expect(openOAuthPopup('https://api.test/start')).toBeNull();
+  });
+
+  it('resolves with the parameters posted by the callback page', async () => {
+    const popup = fakePopup();
+    const open = vi.spyOn(window, 'open').mockReturnValue(popup);
+    const result = openOAuthPopup('https://api.test/start')!;
+
+    reply(popup, { accessToken: 'tok' }, 'https://evil.test'); // wrong origin: ignored
+    reply(fakePopup(), { accessToken: 'tok' }); // some other window: ignored
+    reply(popup, { accessToken: 'tok', state: 's' });
+
+    expect(Object.fromEntries((await result)!)).toEqual({ accessToken: 'tok', state: 's' });
+    expect(open).toHaveBeenCalledWith(
+      'https://api.test/start',
+      OAUTH_POPUP_NAME,
+      expect.stringContaining('popup'),
+    );
+  });
+
+  it('resolves null once the user closes the popup', async () => {
+    vi.useFakeTimers();
+    const popup = { closed: false } as Window;
+    vi.spyOn(window, 'open').mockReturnValue(popup);
+    const result = openOAuthPopup('https://api.test/start')!;
+
+    (popup as { closed: boolean }).closed = true;
+    await vi.advanceTimersByTimeAsync(1000);
+    await expect(result).resolves.toBeNull();
+  });
+});
+
+describe('postToOpener', () => {
+  afterEach(() => {
+    window.name = '';
+    Object.defineProperty(window, 'opener', { value: null, configurable: true });
+    vi.restoreAllMocks();
+  });
+
+  it('is a no-op outside the sign-in popup', () => {
+    expect(postToOpener(new URLSearchParams('accessToken=tok'))).toBe(false);
+  });
+
+  it('hands the parameters to the opener, same origin only, and closes', () => {
+    const postMessage = vi.fn();
+    const close = vi.spyOn(window, 'close').mockImplementation(() => {});
+    Object.defineProperty(window, 'opener', { value: { postMessage }, configurable: true });
+    window.name = OAUTH_POPUP_NAME;
+
+    expect(postToOpener(new URLSearchParams('accessToken=tok&state=s'))).toBe(true);
+    expect(postMessage).toHaveBeenCalledWith(
+      { type: 'authkit:oauth-callback', params: { accessToken: 'tok', state: 's' } },
+      window.location.origin,
+    );
+    expect(close).toHaveBeenCalled();
+  });
+});
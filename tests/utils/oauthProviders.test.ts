@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { buildOAuthStartUrl, resolveOAuthProviders } from '../../src/utils/oauthProviders';
+
+describe('resolveOAuthProviders', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('expands built-in ids with the /api/auth conventions', () => {
+    const [github] = resolveOAuthProviders(['github']);
+    expect(github).toMatchObject({
+      id: 'github',
+      label: 'GitHub',
+      startUrl: '/api/auth/github',
+      callbackPath: '/api/oauth/github/callback',
+      redirectParam: 'redirect',
+    });
+    expect(github.icon).toBeTruthy();
+  });
+
+  it('lets objects override a built-in or define a new provider', () => {
+    const [microsoft, okta] = resolveOAuthProviders([
+      { id: 'microsoft', params: { tenant: 'contoso' } },
+      { id: 'okta', label: 'Okta', startUrl: '/sso/okta/start' },
+    ]);
+    expect(microsoft).toMatchObject({ label: 'Microsoft', params: { tenant: 'contoso' } });
+    expect(okta).toMatchObject({
+      label: 'Okta',
+      icon: undefined,
+      startUrl: '/sso/okta/start',
+      callbackPath: '/api/oauth/okta/callback',
+    });
+  });
+
+  it('skips unknown bare ids with a warning', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(resolveOAuthProviders(['google', 'myspace']).map((p) => p.id)).toEqual(['google']);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('"myspace"'));
+  });
+});
+
+describe('buildOAuthStartUrl', () => {
+  it('points at the backend with the callback URL and extra params', () => {
+    const [provider] = resolveOAuthProviders([
+      { id: 'oidc', params: { prompt: 'login' }, redirectParam: 'return_to' },
+    ]);
+    const url = new URL(
+      buildOAuthStartUrl('https://api.example.com', provider, 'st4te', 'https://app.test'),
+    );
+    expect(`${url.origin}${url.pathname}`).toBe('https://api.example.com/api/auth/oidc');
+    expect(url.searchParams.get('return_to')).toBe('https://app.test/api/oauth/oidc/callback');
+    expect(url.searchParams.get('prompt')).toBe('login');
+    expect(url.searchParams.get('state')).toBe('st4te');
+  });
+
+  it('keeps absolute start and callback URLs as given', () => {
+    const [provider] = resolveOAuthProviders([
+      {
+        id: 'apple',
+        startUrl: 'https://id.example.com/apple',
+        callbackPath: 'https://api.example.com/cb',
+      },
+    ]);
+    const url = new URL(
+      buildOAuthStartUrl('https://api.example.com', provider, 'st4te', 'https://app.test'),
+    );
+    expect(url.host).toBe('id.example.com');
+    expect(url.searchParams.get('redirect')).toBe('https://api.example.com/cb');
+  });
+});
@@ -0,0 +1,280 @@
+// @vitest-environment node
+// WebCrypto rejects jsdom's typed arrays, so this suite runs on plain Node with
+// just the browser globals the OIDC client touches.
+import axios from 'axios';
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from 'vitest';
+import { bufferToBase64url } from '../../src/utils/base64url';
+import {
+  completeOidcLogin,
+  createOidcAuthorizeUrl,
+  createOidcLogoutUrl,
+  createPkcePair,
+  OIDC_TRANSACTION_KEY,
+  refreshOidcTokens,
+} from '../../src/utils/oidc';
+
+/* ── a local mock IdP: discovery, JWKS and token endpoint on axios spies ── */
+const issuer = 'https://idp.test/realms/demo';
+const oidc = { issuer, clientId: 'spa', authParams: { prompt: 'login' } };
+const redirectUri = 'https://app.test/oidc/callback';
+
+let keys: CryptoKeyPair;
+let jwk: JsonWebKey;
+
+const encode = (value: unknown) =>
+  bufferToBase64url(new TextEncoder().encode(JSON.stringify(value)));
+
+async function signIdToken(claims: Record<string, unknown>, kid: string | null = 'k1') {
+  const head = encode(kid === null ? { alg: 'RS256' } : { alg: 'RS256', kid });
+  const body = encode({
+    iss: issuer,
+    aud: 'spa',
+    exp: Math.floor(Date.now() / 1000) + 300,
+    ...claims,
+  });
+  const sig = await crypto.subtle.sign(
+    'RSASSA-PKCS1-v1_5',
+    keys.privateKey,
+    new TextEncoder().encode(`${head}.${body}`),
+  );
+  return `${head}.${body}.${bufferToBase64url(sig)}`;
+}
+
+let tokenResponse: () => Promise<Record<string, unknown>>;
+
+function createSessionStorage() {
+  const store = new Map<string, string>();
+  return {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => void store.set(key, value),
+    removeItem: (key: string) => void store.delete(key),
+    clear: () => store.clear(),
+  };
+}
+
+vi.stubGlobal('sessionStorage', createSessionStorage());
+vi.stubGlobal('window', { location: { origin: 'https://app.test' } });
+
+beforeAll(async () => {
+  keys = await crypto.subtle.generateKey(
+    {
+      name: 'RSASSA-PKCS1-v1_5',
+      modulusLength: 2048,
+      publicExponent: new Uint8Array([1, 0, 1]),
+      hash: 'SHA-256',
+    },
+    true,
+    ['sign', 'verify'],
+  );
+  jwk = {
+    ...(await crypto.subtle.exportKey('jwk', keys.publicKey)),
+    kid: 'k1',
+    use: 'sig',
+  } as JsonWebKey;
+});
+
+beforeEach(() => {
+  sessionStorage.clear();
+  vi.spyOn(axios, 'get').mockImplementation(async (url: string) => {
+    if (url === `${issuer}/.well-known/openid-configuration`) {
+      return {
+        data: {
+          issuer,
+          authorization_endpoint: `${issuer}/auth`,
+          token_endpoint: `${issuer}/token`,
+          jwks_uri: `${issuer}/certs`,
+          end_session_endpoint: `${issuer}/logout`,
+        },
+      };
+    }
+    if (url === `${issuer}/certs`) return { data: { keys: [jwk] } };
+    throw new Error(`unexpected GET ${url}`);
+  });
+  vi.spyOn(axios, 'post').mockImplementation(async () => ({ data: await tokenResponse() }));
+});
+
+afterEach(() => vi.restoreAllMocks());
+
+async function authorize() {
+  const url = new URL(await createOidcAuthorizeUrl(oidc, redirectUri));
+  return { url, state: url.searchParams.get('state')!, nonce: url.searchParams.get('nonce')! };
+}
+
+describe('createPkcePair', () => {
+  it('derives the S256 challenge from the verifier', async () => {
+    const { verifier, challenge } = await createPkcePair();
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+    expect(verifier).toMatch(/^[\w-]{43}$/);
+    expect(challenge).toBe(bufferToBase64url(digest));
+  });
+});
+
+describe('OIDC code flow', () => {
+  it('builds the authorize request from the discovery document', async () => {
+    const { url } = await authorize();
+    expect(`${url.origin}${url.pathname}`).toBe(`${issuer}/auth`);
+    expect(Object.fromEntries(url.searchParams)).toMatchObject({
+      response_type: 'code',
+      client_id: 'spa',
+      redirect_uri: redirectUri,
+      scope: 'openid profile email',
+      code_challenge_method: 'S256',
+      prompt: 'login',
+    });
+    expect(sessionStorage.getItem(OIDC_TRANSACTION_KEY)).toContain(url.searchParams.get('state'));
+  });
+
+  it('redeems the code with the PKCE verifier and validates the ID token', async () => {
+    const { state, nonce } = await authorize();
+    const { verifier } = JSON.parse(sessionStorage.getItem(OIDC_TRANSACTION_KEY)!);
+    tokenResponse = async () => ({
+      access_token: 'at',
+      refresh_token: 'rt',
+      id_token: await signIdToken({ nonce }),
+    });
+
+    const tokens = await completeOidcLogin(oidc, `?code=c0de&state=${state}`);
+
+    expect(tokens).toMatchObject({ accessToken: 'at', refreshToken: 'rt' });
+    const body = vi.mocked(axios.post).mock.calls[0][1] as URLSearchParams;
+    expect(Object.fromEntries(body)).toEqual({
+      grant_type: 'authorization_code',
+      code: 'c0de',
+      redirect_uri: redirectUri,
+      client_id: 'spa',
+      code_verifier: verifier,
+    });
+    expect(sessionStorage.getItem(OIDC_TRANSACTION_KEY)).toBeNull();
+  });
+
+  it('keeps the security parameters when authParams try to override them', async () => {
+    const hostile = { ...oidc, authParams: { state: 'fixed', code_challenge_method: 'plain' } };
+    const url = new URL(await createOidcAuthorizeUrl(hostile, redirectUri));
+    expect(url.searchParams.get('state')).not.toBe('fixed');
+    expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+  });
+
+  it('picks a key of the right type for an ID token without kid', async () => {
+    const issuer2 = 'https://idp2.test';
+    const ecKeys = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, [
+      'sign',
+      'verify',
+    ]);
+    const ecJwk = await crypto.subtle.exportKey('jwk', ecKeys.publicKey);
+    const { kid: _kid, ...rsaJwk } = jwk as JsonWebKey & { kid?: string };
+    vi.mocked(axios.get).mockImplementation(async (url: string) => {
+      if (url === `${issuer2}/.well-known/openid-configuration`) {
+        return {
+          data: {
+            issuer: issuer2,
+            authorization_endpoint: `${issuer2}/auth`,
+            token_endpoint: `${issuer2}/token`,
+            jwks_uri: `${issuer2}/certs`,
+          },
+        };
+      }
+      if (url === `${issuer2}/certs`) return { data: { keys: [ecJwk, rsaJwk] } };
+      throw new Error(`unexpected GET ${url}`);
+    });
+    const oidc2 = { issuer: issuer2, clientId: 'spa' };
+    const url = new URL(await createOidcAuthorizeUrl(oidc2, redirectUri));
+    const nonce = url.searchParams.get('nonce');
+    tokenResponse = async () => ({
+      access_token: 'at',
+      id_token: await signIdToken({ iss: issuer2, nonce }, null),
+    });
+
+    await expect(
+      completeOidcLogin(oidc2, `?code=c&state=${url.searchParams.get('state')}`),
+    ).resolves.toMatchObject({ accessToken: 'at' });
+  });
+
+  it('rejects a discovery document that names another issuer', async () => {
+    vi.mocked(axios.get).mockResolvedValue({
+      data: {
+        issuer: 'https://evil.test',
+        authorization_endpoint: 'https://evil.test/auth',
+        token_endpoint: 'https://evil.test/token',
+        jwks_uri: 'https://evil.test/certs',
+      },
+    });
+    await expect(
+      createOidcAuthorizeUrl({ issuer: 'https://idp3.test', clientId: 'spa' }, redirectUri),
+    ).rejects.toThrow('issuer mismatch');
+  });
+
+  it('rejects a callback whose state does not match', async () => {
+    await authorize();
+    await expect(completeOidcLogin(oidc, '?code=c0de&state=forged')).rejects.toThrow(
+      'state mismatch',
+    );
+    expect(axios.post).not.toHaveBeenCalled();
+  });
+
+  it('surfaces IdP errors from the callback', async () => {
+    await authorize();
+    await expect(
+      completeOidcLogin(oidc, '?error=access_denied&error_description=User+cancelled'),
+    ).rejects.toThrow('User cancelled');
+  });
+
+  it.each([
+    ['nonce', { nonce: 'replayed' }, 'nonce mismatch'],
+    ['audience', { aud: 'someone-else' }, 'audience mismatch'],
+    ['issuer', { iss: 'https://evil.test' }, 'issuer mismatch'],
+    ['expiry', { exp: 1 }, 'expired'],
+  ])('rejects an ID token with a bad %s', async (_name, claims, message) => {
+    const { state, nonce } = await authorize();
+    tokenResponse = async () => ({
+      access_token: 'at',
+      id_token: await signIdToken({ nonce, ...claims }),
+    });
+    await expect(completeOidcLogin(oidc, `?code=c&state=${state}`)).rejects.toThrow(message);
+  });
+
+  it('rejects an ID token that was tampered with', async () => {
+    const { state, nonce } = await authorize();
+    const [head, , sig] = (await signIdToken({ nonce })).split('.');
+    const forged = encode({ iss: issuer, aud: 'spa', exp: 9e9, nonce, sub: 'admin' });
+    tokenResponse = async () => ({ access_token: 'at', id_token: `${head}.${forged}.${sig}` });
+    await expect(completeOidcLogin(oidc, `?code=c&state=${state}`)).rejects.toThrow(
+      'signature is invalid',
+    );
+  });
+});
+
+describe('refreshOidcTokens', () => {
+  it('uses the refresh_token grant', async () => {
+    tokenResponse = async () => ({ access_token: 'at2', refresh_token: 'rt2' });
+    await expect(refreshOidcTokens(oidc, 'rt1')).resolves.toEqual({
+      accessToken: 'at2',
+      refreshToken: 'rt2',
+      idToken: undefined,
+    });
+    const body = vi.mocked(axios.post).mock.calls[0][1] as URLSearchParams;
+    expect(Object.fromEntries(body)).toEqual({
+      grant_type: 'refresh_token',
+      refresh_token: 'rt1',
+      client_id: 'spa',
+    });
+  });
+
+  it('turns expires_in into an expiry for opaque access tokens', async () => {
+    const now = Date.now();
+    vi.spyOn(Date, 'now').mockReturnValue(now);
+    tokenResponse = async () => ({ access_token: 'opaque', expires_in: 300 });
+    await expect(refreshOidcTokens(oidc, 'rt1')).resolves.toMatchObject({
+      accessToken: 'opaque',
+      expiresAt: now + 300_000,
+    });
+  });
+});
+
+describe('createOidcLogoutUrl', () => {
+  it('points at end_session_endpoint with the ID token hint', async () => {
+    const url = new URL((await createOidcLogoutUrl(oidc, 'idt'))!);
+    expect(`${url.origin}${url.pathname}`).toBe(`${issuer}/logout`);
+    expect(url.searchParams.get('id_token_hint')).toBe('idt');
+    expect(url.searchParams.get('post_logout_redirect_uri')).toBe('https://app.test');
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { isPublicPath } from '../../src/utils/publicPaths';
+
+describe('isPublicPath', () => {
+  it('is false when nothing is configured', () => {
+    expect(isPublicPath('/pricing', undefined)).toBe(false);
+  });
+
+  it('matches exact paths, single-segment and deep globs', () => {
+    const globs = ['/pricing', '/blog/*', '/docs/**'];
+    expect(isPublicPath('/pricing', globs)).toBe(true);
+    expect(isPublicPath('/pricing/', globs)).toBe(true);
+    expect(isPublicPath('/blog/hello', globs)).toBe(true);
+    expect(isPublicPath('/blog/hello/comments', globs)).toBe(false);
+    expect(isPublicPath('/docs', globs)).toBe(true);
+    expect(isPublicPath('/docs/api/auth', globs)).toBe(true);
+    expect(isPublicPath('/dashboard', globs)).toBe(false);
+    expect(isPublicPath('/pricingx', globs)).toBe(false);
+  });
+
+  it('accepts a predicate', () => {
+    expect(isPublicPath('/p/1', (p) => p.startsWith('/p/'))).toBe(true);
+  });
+});
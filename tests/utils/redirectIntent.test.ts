@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  consumeRedirectIntent,
+  sanitizeRedirect,
+  saveRedirectIntent,
+  toRedirectTarget,
+} from '../../src/utils/redirectIntent';
+
+describe('redirectIntent', () => {
+  beforeEach(() => sessionStorage.clear());
+
+  it('builds path, search and hash from a location', () => {
+    expect(toRedirectTarget({ pathname: '/orders', search: '?page=2', hash: '#row-7' })).toBe(
+      '/orders?page=2#row-7',
+    );
+    expect(toRedirectTarget('/reports')).toBe('/reports');
+    expect(toRedirectTarget({})).toBeNull();
+    expect(toRedirectTarget(undefined)).toBeNull();
+  });
+
+  it('consumes the stored target exactly once', () => {
+    saveRedirectIntent({ pathname: '/orders', search: '?page=2' });
+    expect(consumeRedirectIntent()).toBe('/orders?page=2');
+    expect(consumeRedirectIntent()).toBe('/');
+  });
+
+  it('falls back to the given default and ignores unusable input', () => {
+    saveRedirectIntent(null);
+    expect(consumeRedirectIntent('/dashboard')).toBe('/dashboard');
+  });
+});
+
+describe('sanitizeRedirect', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('keeps same-origin targets as relative paths', () => {
+    expect(sanitizeRedirect('/orders?page=2#row-7')).toBe('/orders?page=2#row-7');
+    expect(sanitizeRedirect(`${window.location.origin}/reports`)).toBe('/reports');
+  });
+
+  it('rejects foreign, protocol-relative and script targets with a warning', () => {
+    expect(sanitizeRedirect('https://evil.example/x')).toBeNull();
+    expect(sanitizeRedirect('//evil.example/x')).toBeNull();
+    expect(sanitizeRedirect('/\\evil.example/x')).toBeNull();
+    expect(sanitizeRedirect('javascript:alert(1)')).toBeNull();
+    expect(console.warn).toHaveBeenCalled();
+  });
+
+  it('stays quiet about rejected targets in production builds', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    expect(sanitizeRedirect('https://evil.example/x')).toBeNull();
+    expect(console.warn).not.toHaveBeenCalled();
+    vi.unstubAllEnvs();
+  });
+
+  it('rejects targets without a bundler-provided process global', () => {
+    vi.stubGlobal('process', undefined);
+    expect(sanitizeRedirect('https://evil.example/x')).toBeNull();
+    vi.unstubAllGlobals();
+  });
+
+  it('allows origins on the allowlist', () => {
+    expect(
+      sanitizeRedirect('https://admin.example.com/x?y=1', ['https://admin.example.com/']),
+    ).toBe('https://admin.example.com/x?y=1');
+  });
+
+  it('makes consumeRedirectIntent fall back when the stored target is unsafe', () => {
+    sessionStorage.setItem('postLoginRedirect', 'https://evil.example/x');
+    expect(consumeRedirectIntent('/home')).toBe('/home');
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  createCookieTokenStorage,
+  createLocalTokenStorage,
+  createMemoryTokenStorage,
+  createRememberMeTokenStorage,
+  createSessionTokenStorage,
+} from '../../src/utils/tokenStorage';
+
+describe('tokenStorage adapters', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+    document.cookie.split(';').forEach((c) => {
+      const name = c.split('=')[0].trim();
+      if (name) document.cookie = `${name}=; path=/; max-age=0`;
+    });
+  });
+
+  it('memory storage keeps values per instance only', () => {
+    const a = createMemoryTokenStorage();
+    const b = createMemoryTokenStorage();
+    a.set('authToken', 'tok');
+    expect(a.get('authToken')).toBe('tok');
+    expect(b.get('authToken')).toBeNull();
+    a.remove('authToken');
+    expect(a.get('authToken')).toBeNull();
+    expect(localStorage.getItem('authToken')).toBeNull();
+  });
+
+  it('session storage writes to window.sessionStorage', () => {
+    const s = createSessionTokenStorage();
+    s.set('authToken', 'tok');
+    expect(sessionStorage.getItem('authToken')).toBe('tok');
+    s.remove('authToken');
+    expect(s.get('authToken')).toBeNull();
+  });
+
+  it('local storage writes to window.localStorage', () => {
+    const s = createLocalTokenStorage();
+    s.set('authToken', 'tok');
+    expect(localStorage.getItem('authToken')).toBe('tok');
+    s.remove('authToken');
+    expect(s.get('authToken')).toBeNull();
+  });
+
+  it('remember-me storage switches between local and session persistence', () => {
+    const s = createRememberMeTokenStorage();
+    s.set('authToken', 'durable');
+    expect(localStorage.getItem('authToken')).toBe('durable');
+
+    s.remove('authToken');
+    s.setPersistent!(false);
+    s.set('authToken', 'tab-only');
+    expect(sessionStorage.getItem('authToken')).toBe('tab-only');
+    expect(localStorage.getItem('authToken')).toBeNull();
+    // a fresh instance (reload) keeps the choice
+    expect(createRememberMeTokenStorage().get('authToken')).toBe('tab-only');
+
+    s.remove('authToken');
+    expect(sessionStorage.getItem('authToken')).toBeNull();
+  });
+
+  it('cookie storage round-trips encoded values and clears them', () => {
+    // jsdom drops `secure` cookies on http origins
+    const s = createCookieTokenStorage({ secure: false, sameSite: 'Lax' });
+    s.set('authToken', 'a.b=c');
+    expect(s.get('authToken')).toBe('a.b=c');
+    s.remove('authToken');
+    expect(s.get('authToken')).toBeNull();
+  });
+});
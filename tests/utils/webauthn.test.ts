@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { bufferToBase64url } from '../../src/utils/base64url';
+import {
+  createPasskey,
+  getPasskeyAssertion,
+  isPasskeyCancellation,
+  isPasskeySupported,
+} from '../../src/utils/webauthn';
+
+const bytes = (...b: number[]) => new Uint8Array(b).buffer;
+
+function mockCredentials(impl: { get?: any; create?: any }) {
+  vi.stubGlobal('PublicKeyCredential', function PublicKeyCredential() {});
+  Object.defineProperty(navigator, 'credentials', { value: impl, configurable: true });
+}
+
+describe('webauthn helpers', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    Object.defineProperty(navigator, 'credentials', { value: undefined, configurable: true });
+  });
+
+  it('reports support only when PublicKeyCredential exists', () => {
+    expect(isPasskeySupported()).toBe(false);
+    mockCredentials({});
+    expect(isPasskeySupported()).toBe(true);
+  });
+
+  it('decodes the challenge and serialises the assertion', async () => {
+    const get = vi.fn().mockResolvedValue({
+      id: 'cred-1',
+      rawId: bytes(1, 2, 3),
+      type: 'public-key',
+      authenticatorAttachment: 'platform',
+      response: {
+        clientDataJSON: bytes(4),
+        authenticatorData: bytes(5),
+        signature: bytes(6),
+        userHandle: null,
+      },
+      getClientExtensionResults: () => ({}),
+    });
+    mockCredentials({ get });
+
+    const json = await getPasskeyAssertion(
+      {
+        challenge: bufferToBase64url(bytes(9, 9)),
+        allowCredentials: [{ id: bufferToBase64url(bytes(1, 2, 3)), type: 'public-key' }],
+        rpId: 'example.com',
+      },
+      { mediation: 'conditional' },
+    );
+
+    const { publicKey, mediation } = get.mock.calls[0][0];
+    expect(mediation).toBe('conditional');
+    expect(new Uint8Array(publicKey.challenge)).toEqual(new Uint8Array([9, 9]));
+    expect(new Uint8Array(publicKey.allowCredentials[0].id)).toEqual(new Uint8Array([1, 2, 3]));
+    expect(json).toMatchObject({
+      id: 'cred-1',
+      rawId: 'AQID',
+      response: {
+        clientDataJSON: 'BA',
+        authenticatorData: 'BQ',
+        signature: 'Bg',
+        userHandle: null,
+      },
+    });
+  });
+
+  it('decodes the user id for registration and includes the attestation', async () => {
+    const create = vi.fn().mockResolvedValue({
+      id: 'cred-2',
+      rawId: bytes(7),
+      type: 'public-key',
+      response: {
+        clientDataJSON: bytes(4),
+        attestationObject: bytes(8),
+        getTransports: () => ['internal'],
+      },
+      getClientExtensionResults: () => ({}),
+    });
+    mockCredentials({ create });
+
+    const json = await createPasskey({
+      challenge: 'AQ',
+      rp: { name: 'Acme' },
+      user: { id: 'AgI', name: 'a@acme.io', displayName: 'A' },
+      pubKeyCredParams: [{ type: 'public-key', alg: -7 }],
+    });
+
+    expect(new Uint8Array(create.mock.calls[0][0].publicKey.user.id)).toEqual(
+      new Uint8Array([2, 2]),
+    );
+    expect(json.response).toMatchObject({ attestationObject: 'CA', transports: ['internal'] });
+  });
+
+  it('recognises user cancellation', () => {
+    expect(isPasskeyCancellation(new DOMException('x', 'NotAllowedError'))).toBe(true);
+    expect(isPasskeyCancellation(new Error('boom'))).toBe(false);
+  });
+});